@@ -4,9 +4,22 @@ import { EventEmitter } from "events";
 import { tool, ModelMessage } from "ai";
 import { z } from "zod";
 import type { DB } from "@/types/database";
+import searchNovel from "@/utils/searchNovel";
+import { recordOutlineSource } from "@/utils/sourceHash";
+import { recordCreatedOutlines, snapshotOutlines, VersionMeta } from "@/utils/outlineVersion";
+import { deleteOutlineScripts } from "@/utils/deleteScript";
+import getChapterSummaries, { countCachedSummaries } from "@/utils/chapterSummary";
+import analyzeCoverage, { formatCoverageReport } from "@/utils/outlineCoverage";
+import { mergeEpisodes, moveEpisode, splitEpisode } from "@/utils/outlineEpisode";
+import { actSchema, findStorylines, renderStoryline, saveStoryline, StorylineType } from "@/utils/storyline";
+import compactHistory from "@/utils/ai/text/compactHistory";
+import { ToolTracer } from "@/utils/toolTrace";
+import ToolApproval from "@/utils/toolApproval";
+import AgentRun from "@/utils/agentRun";
 // ==================== 类型定义 ====================
 
 type AgentType = "AI1" | "AI2" | "director";
+const SUB_AGENTS: string[] = ["AI1", "AI2", "director"];
 type AssetType = "角色" | "道具" | "场景";
 type RefreshEvent = "storyline" | "outline" | "assets";
 
@@ -30,6 +43,7 @@ interface EpisodeData {
   visualHighlights: string[]; // 按 outline 顺序排列的标志性镜头
   endingHook: string; // outline 之后的悬念延伸
   classicQuotes: string[];
+  arcs?: string[]; // 对应的故事线弧线编号
 }
 
 // ==================== Schema 定义 ====================
@@ -64,6 +78,7 @@ const episodeSchema = z.object({
   visualHighlights: z.array(z.string()).describe("3-5个标志性镜头，按 outline 叙事顺序排列"),
   endingHook: z.string().describe("结尾悬念：outline 之后的延伸，勾引下集"),
   classicQuotes: z.array(z.string()).describe("1-2句金句，每句≤15字，必须从原文提取"),
+  arcs: z.array(z.string()).optional().describe("本集对应的故事线弧线编号（getStoryline 中方括号内的编号），如 [\"1-2-1\"]"),
 });
 
 // ==================== 常量配置 ====================
@@ -74,8 +89,18 @@ export default class OutlineScript {
   private readonly projectId: number;
   readonly emitter = new EventEmitter();
   history: Array<ModelMessage> = [];
+  memory = ""; // 压缩后的早期对话记忆
   novelChapters: DB["t_novel"][] = [];
 
+  // 当前调用的中止状态与已执行完成的工具
+  private readonly run = new AgentRun();
+  // 工具调用的推送
+  private readonly tracer = new ToolTracer((event, data) => this.emit(event, data));
+  // 危险工具执行前的用户确认
+  readonly approval = new ToolApproval((event, data) => this.emit(event, data));
+  // 当前调用的标识，大纲版本按此归组以便整轮回滚
+  private turnId: string | null = null;
+
   constructor(projectId: number) {
     this.projectId = projectId;
   }
@@ -90,6 +115,17 @@ export default class OutlineScript {
     this.novelChapters = chapters;
   }
 
+  /**
+   * 中止正在进行的调用（含 Sub-Agent），已执行完成的工具不会回滚
+   * @returns 是否有进行中的调用
+   */
+  abort(): boolean {
+    if (!this.run.abort()) return false;
+    this.log("中止任务");
+    this.approval.cancelAll();
+    return true;
+  }
+
   // ==================== 私有工具方法 ====================
 
   private emit(event: string, data?: any) {
@@ -142,28 +178,34 @@ export default class OutlineScript {
 
   // ==================== 故事线操作 ====================
 
-  private async findStoryline() {
-    return u.db("t_storyline").where({ projectId: this.projectId }).first();
+  private async getStorylineText(): Promise<string> {
+    const storylines = await findStorylines(this.projectId);
+    if (!storylines.length) return "当前项目暂无故事线";
+    return storylines
+      .map((item) => `故事线ID: ${item.id}（${item.type === "main" ? "主线" : "支线"}：${item.name}）\n${renderStoryline(item)}`)
+      .join(`\n\n${"=".repeat(50)}\n\n`);
   }
 
-  private async upsertStorylineContent(content: string) {
-    const existing = await this.findStoryline();
-    if (existing) {
-      await u.db("t_storyline").where({ projectId: this.projectId }).update({ content });
-    } else {
-      await u.db("t_storyline").insert({ projectId: this.projectId, content });
-    }
+  private async upsertStoryline(input: Parameters<typeof saveStoryline>[1]) {
+    const storyline = await saveStoryline(this.projectId, input);
     this.refresh("storyline");
+    return storyline;
   }
 
-  private async deleteStorylineContent() {
-    const deleted = await u.db("t_storyline").where({ projectId: this.projectId }).del();
+  private async deleteStorylineContent(id?: number) {
+    const query = u.db("t_storyline").where({ projectId: this.projectId });
+    if (id) query.where({ id });
+    const deleted = await query.del();
     this.refresh("storyline");
     return deleted;
   }
 
   // ==================== 大纲操作 ====================
 
+  private get versionMeta(): VersionMeta {
+    return { source: "agent", turnId: this.turnId };
+  }
+
   private async findOutlines() {
     return u.db("t_outline").where({ projectId: this.projectId }).orderBy("episode", "asc");
   }
@@ -181,8 +223,9 @@ export default class OutlineScript {
     const outlines = await u.db("t_outline").select("id").where({ projectId: this.projectId });
     if (outlines.length === 0) return 0;
 
-    const outlineIds = outlines.map((o) => o.id);
-    await u.db("t_script").whereIn("outlineId", outlineIds).del();
+    const outlineIds = outlines.map((o) => o.id!);
+    await snapshotOutlines(outlineIds, "delete", this.versionMeta);
+    await deleteOutlineScripts(outlineIds);
     await u.db("t_outline").where({ projectId: this.projectId }).del();
 
     return outlines.length;
@@ -235,6 +278,8 @@ export default class OutlineScript {
       .limit(insertedCount);
 
     const scriptCount = await this.createEmptyScripts(newOutlines as Array<{ id: number; data: string }>);
+    await recordOutlineSource(newOutlines.map((o) => o.id!));
+    await recordCreatedOutlines(newOutlines.map((o) => o.id!), this.versionMeta);
 
     this.refresh("outline");
     return { insertedCount, scriptCount };
@@ -244,16 +289,18 @@ export default class OutlineScript {
     const existing = await this.findOutlineById(id);
     if (!existing) return false;
 
+    await snapshotOutlines([id], "update", this.versionMeta);
     await u
       .db("t_outline")
       .where({ id })
       .update({ data: JSON.stringify(data) });
+    await recordOutlineSource([id]);
     this.refresh("outline");
     return true;
   }
 
   private async deleteOutlineData(ids: number[]) {
-    const results = await Promise.allSettled(ids.map((id) => u.deleteOutline(id, this.projectId)));
+    const results = await Promise.allSettled(ids.map((id) => u.deleteOutline(id, this.projectId, this.versionMeta)));
     this.refresh("outline");
     return results;
   }
@@ -271,6 +318,7 @@ export default class OutlineScript {
 第 ${ep.episodeIndex} 集: ${ep.title || ""}
 ${"=".repeat(50)}
 章节范围: ${ep.chapterRange?.join(", ") || ""}
+对应弧线: ${ep.arcs?.join(", ") || "无"}
 核心矛盾: ${ep.coreConflict || ""}
 
 【剧情主干】(最高优先级，剧本生成的唯一权威):
@@ -399,35 +447,44 @@ ${formatList(ep.classicQuotes, (q) => q)}
 
   getStoryline = tool({
     title: "getStoryline",
-    description: "Get the weather in a location",
+    description: "获取当前项目的全部故事线（主线与支线），结构化故事线会列出各幕、弧线及弧线编号",
     inputSchema: z.object({}),
     execute: async () => {
       this.log("获取故事线");
-      const storyline = await this.findStoryline();
-      return storyline?.content ?? "当前项目暂无故事线";
+      return this.getStorylineText();
     },
   });
 
   saveStoryline = tool({
     title: "saveStoryline",
-    description: "保存或更新当前项目的故事线，会覆盖已有内容",
+    description:
+      "保存故事线。优先按幕(acts)与弧线(arcs)结构化保存，每条弧线标明章节范围与涉及角色。不传 id 时：主线覆盖已有主线，支线新增一条；传 id 时更新该条故事线",
     inputSchema: z.object({
-      content: z.string().describe("故事线完整内容"),
+      id: z.number().optional().describe("要更新的故事线ID，不填则按 type 新建/覆盖"),
+      type: z.enum(["main", "subplot"]).default("main").describe("main 主线 / subplot 支线"),
+      name: z.string().optional().describe("故事线名称，如 主线：复仇之路"),
+      summary: z.string().optional().describe("故事线总述"),
+      acts: z.array(actSchema).optional().describe("按时间顺序排列的幕"),
+      content: z.string().optional().describe("纯文本故事线，仅在无法结构化时使用"),
     }),
-    execute: async ({ content }) => {
-      this.log("保存故事线");
-      await this.upsertStorylineContent(content);
-      return "故事线保存成功";
+    execute: async ({ id, type, name, summary, acts, content }) => {
+      this.log("保存故事线", `${type}${id ? ` ID: ${id}` : ""}`);
+      if (!acts?.length && content === undefined) return "请提供 acts（结构化故事线）或 content（纯文本故事线）";
+      const structure = acts?.length ? { summary: summary ?? "", acts } : undefined;
+      const storyline = await this.upsertStoryline({ id, type: type as StorylineType, name, structure, content });
+      return `故事线保存成功，故事线ID: ${storyline.id}`;
     },
   });
 
   deleteStoryline = tool({
     title: "deleteStoryline",
-    description: "删除当前项目的故事线",
-    inputSchema: z.object({}),
-    execute: async () => {
-      this.log("删除故事线");
-      const deleted = await this.deleteStorylineContent();
+    description: "删除当前项目的故事线，不传 id 时删除全部故事线",
+    inputSchema: z.object({
+      id: z.number().optional().describe("要删除的故事线ID"),
+    }),
+    execute: async ({ id }) => {
+      this.log("删除故事线", id ? `ID: ${id}` : "全部");
+      const deleted = await this.deleteStorylineContent(id);
       return deleted > 0 ? "故事线删除成功" : "当前项目没有故事线";
     },
   });
@@ -489,6 +546,68 @@ ${formatList(ep.classicQuotes, (q) => q)}
     },
   });
 
+  moveOutline = tool({
+    title: "moveOutline",
+    description: "调整单集顺序，将指定大纲移动到目标集数，其余集自动顺延，剧本及分镜随大纲一起移动",
+    inputSchema: z.object({
+      id: z.number().describe("大纲ID"),
+      toEpisode: z.number().describe("目标集数，从1开始"),
+    }),
+    execute: async ({ id, toEpisode }) => {
+      this.log("移动大纲", `ID: ${id} -> 第${toEpisode}集`);
+      if (!(await this.findOutlineById(id))) return `未找到大纲ID: ${id}`;
+      const episode = await moveEpisode(id, toEpisode, this.versionMeta);
+      this.refresh("outline");
+      return `大纲ID ${id} 已移动到第${episode}集，集数已重新编号`;
+    },
+  });
+
+  splitOutline = tool({
+    title: "splitOutline",
+    description: "将一集大纲拆分为前后两集。原大纲替换为前半部分并保留已有剧本，后半部分插入为下一集，后续集数自动顺延",
+    inputSchema: z.object({
+      id: z.number().describe("要拆分的大纲ID"),
+      first: episodeSchema.describe("拆分后的前半集大纲"),
+      second: episodeSchema.describe("拆分后的后半集大纲"),
+    }),
+    execute: async ({ id, first, second }) => {
+      this.log("拆分大纲", `ID: ${id}`);
+      if (!(await this.findOutlineById(id))) return `未找到大纲ID: ${id}`;
+      const { secondId } = await splitEpisode(id, first, second, this.versionMeta);
+      this.refresh("outline");
+      return `大纲ID ${id} 已拆分，后半集大纲ID: ${secondId}，集数已重新编号`;
+    },
+  });
+
+  mergeOutline = tool({
+    title: "mergeOutline",
+    description: "将两集大纲合并为一集。保留靠前一集的大纲ID与剧本，靠后一集被删除，其剧本与分镜并入保留的剧本，后续集数自动前移",
+    inputSchema: z.object({
+      firstId: z.number().describe("要合并的大纲ID"),
+      secondId: z.number().describe("要合并的另一个大纲ID"),
+      data: episodeSchema.describe("合并后的大纲数据"),
+    }),
+    execute: async ({ firstId, secondId, data }) => {
+      this.log("合并大纲", `IDs: ${firstId}, ${secondId}`);
+      if (!(await this.findOutlineById(firstId))) return `未找到大纲ID: ${firstId}`;
+      if (!(await this.findOutlineById(secondId))) return `未找到大纲ID: ${secondId}`;
+      if (firstId === secondId) return "不能合并同一集";
+      const { keptId, removedId } = await mergeEpisodes(firstId, secondId, data, this.versionMeta);
+      this.refresh("outline");
+      return `合并完成：保留大纲ID ${keptId}，删除大纲ID ${removedId}，集数已重新编号`;
+    },
+  });
+
+  checkCoverage = tool({
+    title: "checkCoverage",
+    description: "检查大纲对小说章节的覆盖情况：未覆盖的章节、被多集重复覆盖的章节、章节顺序异常，以及每集关联原文的篇幅。生成或修改大纲后用于自查",
+    inputSchema: z.object({}),
+    execute: async () => {
+      this.log("检查章节覆盖");
+      return formatCoverageReport(await analyzeCoverage(this.projectId));
+    },
+  });
+
   // ==================== Tool 定义：章节 ====================
 
   getChapter = tool({
@@ -519,6 +638,44 @@ ${formatList(ep.classicQuotes, (q) => q)}
     },
   });
 
+  getChapterSummaries = tool({
+    title: "getChapterSummaries",
+    description: "获取章节剧情摘要（每章约200字），用于在不加载原文的情况下通览长篇小说、规划故事线和分集。未缓存的章节会先生成摘要，耗时较长，建议按需指定范围。需要对白和细节时再用 getChapter 获取原文",
+    inputSchema: z.object({
+      startChapter: z.number().optional().describe("起始章节号，不填则从第一章开始"),
+      endChapter: z.number().optional().describe("结束章节号（包含），不填则到最后一章"),
+    }),
+    execute: async ({ startChapter, endChapter }) => {
+      this.log("获取章节摘要", `范围: ${startChapter ?? "首章"} - ${endChapter ?? "末章"}`);
+      const chapterIndexes = this.novelChapters
+        .map((c) => c.chapterIndex!)
+        .filter((idx) => (startChapter === undefined || idx >= startChapter) && (endChapter === undefined || idx <= endChapter));
+      if (!chapterIndexes.length) return "指定范围内没有章节";
+
+      const summaries = await getChapterSummaries(this.projectId, chapterIndexes, (idx, done, total) => {
+        this.log("生成章节摘要", `第${idx}章 (${done}/${total})`);
+      });
+      return summaries.map((s) => `【第${s.chapterIndex}章 ${s.chapter}】(${s.reel})\n${s.summary || "摘要生成失败，请使用 getChapter 获取原文"}`).join("\n\n");
+    },
+  });
+
+  searchNovel = tool({
+    title: "searchNovel",
+    description: "按关键词全文检索小说原文，返回命中章节（按章节顺序）及关键词上下文片段，可用于查找角色、道具首次出场或某段情节所在章节。多个关键词用空格分隔表示同时出现",
+    inputSchema: z.object({
+      keyword: z.string().min(1).describe("检索关键词，如角色名、道具名、地名"),
+      limit: z.number().default(10).describe("最多返回的章节数"),
+    }),
+    execute: async ({ keyword, limit }) => {
+      this.log("检索原文", `关键词: ${keyword}`);
+      const { total, hits } = await searchNovel(this.projectId, keyword, { limit, highlight: ["【", "】"], html: false });
+      if (!total) return `原文中未找到「${keyword}」`;
+
+      const list = hits.map((h) => `第${h.chapterIndex}章 ${h.chapter}（出现${h.occurrences}次）\n${h.snippets.map((s) => `  - ${s}`).join("\n")}`);
+      return `「${keyword}」共命中 ${total} 章${total > hits.length ? `，以下为前 ${hits.length} 章` : ""}：\n\n${list.join("\n\n")}`;
+    },
+  });
+
   // ==================== Tool 定义：资产 ====================
 
   generateAssets = tool({
@@ -544,10 +701,11 @@ ${formatList(ep.classicQuotes, (q) => q)}
   }
 
   private async buildEnvironmentContext(): Promise<string> {
-    const [novelInfo, storyline, outlineCount] = await Promise.all([
+    const [novelInfo, storylines, outlineCount, summaryCount] = await Promise.all([
       this.getNovelInfo(true),
-      this.findStoryline(),
+      findStorylines(this.projectId),
       u.db("t_outline").where({ projectId: this.projectId }).count("id as count").first() as any,
+      countCachedSummaries(this.projectId),
     ]);
 
     return `<环境信息>
@@ -559,28 +717,49 @@ ${novelInfo}
 已加载章节列表:
 ${this.getChapterContext()}
 
-故事线状态: ${storyline ? "已生成" : "未生成"}
+故事线状态: ${storylines.length ? `已生成（${storylines.map((i) => `${i.type === "main" ? "主线" : "支线"}:${i.name}`).join("、")}）` : "未生成"}
 大纲状态: 共 ${outlineCount?.count ?? 0} 集
+章节摘要: 已缓存 ${summaryCount}/${this.novelChapters.length} 章
 
 可用工具:
 - getChapter: 获取章节原文
+- getChapterSummaries: 获取章节剧情摘要（长篇优先使用）
+- searchNovel: 按关键词检索原文
 - getStoryline/saveStoryline/deleteStoryline: 故事线操作
 - getOutline/saveOutline/updateOutline/deleteOutline: 大纲操作
+- moveOutline/splitOutline/mergeOutline: 调整集数顺序、拆分、合并大纲
+- checkCoverage: 检查大纲的章节覆盖（遗漏/重复/乱序）
 - generateAssets: 从大纲生成资产
 </环境信息>`;
   }
 
   private buildConversationHistory(): string {
-    if (!this.history.length) return "无对话历史";
-    return this.history.map(({ role, content }) => `${role}: ${content}`).join("\n\n");
-  }
-
-  private async buildFullContext(task: string): Promise<string> {
+    if (!this.history.length && !this.memory) return "无对话历史";
+    const memory = this.memory ? `【早期对话记忆】\n${this.memory}\n\n` : "";
+    // 只取文本部分与 Sub-Agent 的产出，其余工具调用与结果不展开
+    const history = this.history
+      .map(({ role, content }) => {
+        if (typeof content === "string") return `${role}: ${content}`;
+        const text = content
+          .map((part) => {
+            if (part.type === "text") return part.text;
+            if (part.type === "tool-result" && SUB_AGENTS.includes(part.toolName) && part.output.type === "text") return part.output.value;
+            return "";
+          })
+          .join("");
+        return text ? `${role === "tool" ? "assistant" : role}: ${text}` : "";
+      })
+      .filter(Boolean)
+      .join("\n\n");
+    return memory + history;
+  }
+
+  private async buildFullContext(task: string, extra = ""): Promise<string> {
     const env = await this.buildEnvironmentContext();
     const history = this.buildConversationHistory();
 
     return `${env}
-
+${extra}
 <对话历史>
 ${history}
 </对话历史>
@@ -595,11 +774,14 @@ ${task}
   private getSubAgentTools() {
     return {
       getChapter: this.getChapter,
+      getChapterSummaries: this.getChapterSummaries,
+      searchNovel: this.searchNovel,
       getStoryline: this.getStoryline,
       saveStoryline: this.saveStoryline,
       getOutline: this.getOutline,
       saveOutline: this.saveOutline,
       updateOutline: this.updateOutline,
+      checkCoverage: this.checkCoverage,
     };
   }
 
@@ -628,34 +810,36 @@ ${task}
       director: directorPrompt,
     };
 
-    const context = await this.buildFullContext(task);
+    // 导演审核时附带章节覆盖检查结果，便于发现遗漏和重复的章节
+    const coverage =
+      agentType === "director" ? `\n<章节覆盖>\n${formatCoverageReport(await analyzeCoverage(this.projectId), false)}\n</章节覆盖>\n` : "";
+    const context = await this.buildFullContext(task, coverage);
 
     const { fullStream } = await u.ai.text.stream(
       {
         system: SYSTEM_PROMPTS[agentType],
-        tools: this.getSubAgentTools(),
+        tools: this.approval.guard(this.getSubAgentTools(), agentType, this.run, SUB_AGENTS),
         messages: [{ role: "user", content: context }],
         maxStep: 100,
+        abortSignal: this.run.signal,
       },
       promptConfig,
     );
 
     let fullResponse = "";
-    for await (const item of fullStream) {
-      if (item.type == "tool-call") {
-        this.emit("toolCall", { agent: "main", name: item.title, args: null });
-      }
-      if (item.type == "text-delta") {
-        fullResponse += item.text;
-        this.emit("subAgentStream", { agent: agentType, text: item.text });
+    try {
+      for await (const item of fullStream) {
+        this.tracer.trace(item, agentType);
+        if (item.type == "text-delta") {
+          fullResponse += item.text;
+          this.emit("subAgentStream", { agent: agentType, text: item.text });
+        }
       }
+    } catch (err) {
+      if (!this.run.aborted) throw err;
     }
 
     this.emit("subAgentEnd", { agent: agentType });
-    this.history.push({
-      role: "assistant",
-      content: fullResponse,
-    });
     this.log(`Sub-Agent 完成`, agentType);
 
     return fullResponse ?? `${agentType}已完成任务`;
@@ -672,6 +856,28 @@ ${task}
     });
   }
 
+  // ==================== 历史压缩 ====================
+
+  /**
+   * 历史记录超出 token 预算时，把较早的轮次压缩进对话记忆
+   */
+  private async compactHistory(promptConfig: Awaited<ReturnType<typeof u.getPromptAi>>) {
+    let result: Awaited<ReturnType<typeof compactHistory>>;
+    try {
+      result = await compactHistory(this.history, this.memory, promptConfig, this.run.signal);
+    } catch (err) {
+      // 压缩时被中止则保留原历史，由后续的中止流程处理
+      if (this.run.aborted) return;
+      throw err;
+    }
+    if (!result.compacted) return;
+    const removed = this.history.length - result.history.length;
+    this.history = result.history;
+    this.memory = result.memory;
+    this.log("压缩对话历史", `合并 ${removed} 条消息，剩余约 ${result.tokens} tokens`);
+    this.emit("compacted", { removed, tokens: result.tokens, memory: result.memory });
+  }
+
   // ==================== 主入口 ====================
 
   private getAllTools() {
@@ -680,6 +886,8 @@ ${task}
       AI2: this.createSubAgentTool("AI2", "调用大纲师。负责根据故事线生成剧集大纲，会自行调用 saveOutline 保存结果。"),
       director: this.createSubAgentTool("director", "调用导演。负责审核故事线和大纲，会自行调用 updateOutline 或 saveStoryline 进行修改。"),
       getChapter: this.getChapter,
+      getChapterSummaries: this.getChapterSummaries,
+      searchNovel: this.searchNovel,
       getStoryline: this.getStoryline,
       saveStoryline: this.saveStoryline,
       deleteStoryline: this.deleteStoryline,
@@ -687,50 +895,79 @@ ${task}
       saveOutline: this.saveOutline,
       updateOutline: this.updateOutline,
       deleteOutline: this.deleteOutline,
+      moveOutline: this.moveOutline,
+      splitOutline: this.splitOutline,
+      mergeOutline: this.mergeOutline,
+      checkCoverage: this.checkCoverage,
       generateAssets: this.generateAssets,
     };
   }
 
+  /**
+   * 中止时工具调用的消息不完整，只记录已输出的文本与已执行的操作
+   */
+  private finishAborted(text: string) {
+    this.history.push({ role: "assistant", content: this.run.abortedReply(text) });
+    this.emit("aborted", { text, committed: this.run.committed });
+    return text;
+  }
+
   async call(msg: string): Promise<string> {
     this.history.push({
       role: "user",
       content: msg,
     });
 
-    const envContext = await this.buildEnvironmentContext();
-
-    const prompts = await u.db("t_prompts").where("code", "outlineScript-main").first();
-    const promptConfig = await u.getPromptAi("outlineScriptAgent");
+    const abortSignal = this.run.start();
+    this.turnId = u.uuid();
+    try {
+      const envContext = await this.buildEnvironmentContext();
+
+      const prompts = await u.db("t_prompts").where("code", "outlineScript-main").first();
+      const promptConfig = await u.getPromptAi("outlineScriptAgent");
+
+      const mainPrompts = prompts?.customValue || prompts?.defaultValue || "不论用户说什么，请直接输出Agent配置异常";
+
+      await this.compactHistory(promptConfig);
+      // 准备阶段已被中止时不再发起请求
+      if (this.run.aborted) return this.finishAborted("");
+      const memory = this.memory ? `\n<对话记忆>\n${this.memory}\n</对话记忆>\n` : "";
+
+      const { fullStream, response } = await u.ai.text.stream(
+        {
+          system: `${envContext}\n${memory}${mainPrompts}`,
+          tools: this.approval.guard(this.getAllTools(), "main", this.run, SUB_AGENTS),
+          messages: this.history,
+          maxStep: 100,
+          abortSignal,
+        },
+        promptConfig,
+      );
 
-    const mainPrompts = prompts?.customValue || prompts?.defaultValue || "不论用户说什么，请直接输出Agent配置异常";
+      let fullResponse = "";
+      try {
+        for await (const item of fullStream) {
+          this.tracer.trace(item, "main");
+          if (item.type == "text-delta") {
+            fullResponse += item.text;
+            this.emit("data", item.text);
+          }
+        }
+      } catch (err) {
+        if (!this.run.aborted) throw err;
+      }
 
-    const { fullStream } = await u.ai.text.stream(
-      {
-        system: `${envContext}\n${mainPrompts}`,
-        tools: this.getAllTools(),
-        messages: this.history,
-        maxStep: 100,
-      },
-      promptConfig,
-    );
+      if (this.run.aborted) return this.finishAborted(fullResponse);
 
-    let fullResponse = "";
-    for await (const item of fullStream) {
-      if (item.type == "tool-call") {
-        this.emit("toolCall", { agent: "main", name: item.title, args: null });
-      }
-      if (item.type == "text-delta") {
-        fullResponse += item.text;
-        this.emit("data", item.text);
-      }
-    }
-    this.history.push({
-      role: "assistant",
-      content: fullResponse,
-    });
+      // 保留完整的消息（含工具调用与结果），以便恢复会话时模型能看到之前的操作
+      const { messages } = await response;
+      this.history.push(...messages);
 
-    this.emit("response", fullResponse);
+      this.emit("response", fullResponse);
 
-    return fullResponse;
+      return fullResponse;
+    } finally {
+      this.run.finish();
+    }
   }
 }
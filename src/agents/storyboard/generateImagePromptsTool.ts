@@ -1,14 +1,8 @@
 import u from "@/utils";
+import { calculateGridLayout, GridLayoutResult } from "./imageSplitting";
 
 type AspectRatio = "16:9" | "9:16" | "21:9" | "1:1" | "4:3" | "3:4" | "3:2" | "2:3";
 
-interface GridLayoutResult {
-  cols: number;
-  rows: number;
-  totalCells: number;
-  placeholderCount: number;
-}
-
 interface GridPromptOptions {
   prompts: string[];
   style: string;
@@ -21,39 +15,6 @@ interface GridPromptResult {
   gridLayout: GridLayoutResult;
 }
 
-/**
- * 根据prompts数量计算宫格布局
- */
-function calculateGridLayout(count: number): GridLayoutResult {
-  let cols: number;
-  let rows: number;
-  if (count <= 0) {
-    cols = 1;
-    rows = 1;
-  } else if (count === 1) {
-    cols = 1;
-    rows = 1;
-  } else if (count === 2) {
-    cols = 2;
-    rows = 1;
-  } else if (count === 3) {
-    cols = 3;
-    rows = 1;
-  } else if (count === 4) {
-    cols = 2;
-    rows = 2;
-  } else if (count <= 9) {
-    cols = 3;
-    rows = 3;
-  } else {
-    cols = 3;
-    rows = Math.ceil(count / 3);
-  }
-  const totalCells = cols * rows;
-  const placeholderCount = totalCells - count;
-  return { cols, rows, totalCells, placeholderCount };
-}
-
 /**
  * 获取宽高比描述
  */
@@ -76,7 +37,7 @@ function getAspectRatioDescription(aspectRatio: AspectRatio): string {
  */
 async function generateGridPrompt(options: GridPromptOptions): Promise<GridPromptResult> {
   const { prompts, style, aspectRatio, assetsName } = options;
-  const layout = calculateGridLayout(prompts.length);
+  const layout = calculateGridLayout(prompts.length, aspectRatio);
   const aspectRatioDesc = getAspectRatioDescription(aspectRatio);
 
   // 构建宫格位置描述
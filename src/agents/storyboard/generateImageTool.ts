@@ -36,6 +36,14 @@ interface ResourceItem {
   intro: string;
 }
 
+interface CellReference {
+  prompt?: string;
+  src?: string;
+}
+
+// 单镜头重绘时最多参考的相邻镜头图数量
+const MAX_SIBLING_IMAGES = 3;
+
 // 压缩图片直到不超过指定大小
 async function compressImage(buffer: Buffer, maxSizeBytes: number = 3 * 1024 * 1024): Promise<Buffer> {
   if (buffer.length <= maxSizeBytes) {
@@ -259,7 +267,8 @@ function buildResourcesMapPrompts(images: ImageInfo[]): string {
   return `其中人物、场景、道具参考对照关系如下：${mapping.join(", ")}。`;
 }
 
-export default async (cells: { prompt: string }[], scriptId: number, projectId: number) => {
+// 读取项目信息、本集大纲中的资产及其参考图
+async function loadReferenceAssets(scriptId: number, projectId: number) {
   const scriptData = await u.db("t_script").where({ id: scriptId, projectId }).first();
   const projectInfo = await u.db("t_project").where({ id: projectId }).first();
 
@@ -283,6 +292,94 @@ export default async (cells: { prompt: string }[], scriptId: number, projectId:
   if (allImages.length === 0) {
     throw new Error("未找到可用的图片资源");
   }
+  return { projectInfo, resources, allImages };
+}
+
+// 镜头图保存的是访问链接，读取文件时转回 OSS 相对路径
+export function srcToPath(src: string) {
+  try {
+    return new URL(src).pathname;
+  } catch {
+    return src;
+  }
+}
+
+// 裁切为项目画幅比例，模型返回的尺寸不一定与请求一致
+async function fitAspectRatio(buffer: Buffer, aspectRatio: string) {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const { width, height } = await sharp(buffer).metadata();
+  if (!w || !h || !width || !height || Math.abs(width / height - w / h) < 0.01) return buffer;
+  const targetHeight = Math.round((width * h) / w);
+  const size = targetHeight <= height ? { width, height: targetHeight } : { width: Math.round((height * w) / h), height };
+  return sharp(buffer).resize(size.width, size.height, { fit: "cover" }).png().toBuffer();
+}
+
+function decodeImage(contentStr: string) {
+  const match = contentStr.match(/base64,([A-Za-z0-9+/=]+)/);
+  const base64Str = match?.[1] ?? contentStr;
+  return Buffer.from(base64Str, "base64");
+}
+
+/**
+ * 重新生成分镜中的单个镜头：只生成这一格画面，以资产图和同分镜相邻镜头图作为参考保持一致性
+ */
+export async function generateCellImage(cells: CellReference[], index: number, scriptId: number, projectId: number) {
+  const target = cells[index];
+  if (!target?.prompt) throw new Error("镜头提示词为空");
+  const { projectInfo, resources, allImages } = await loadReferenceAssets(scriptId, projectId);
+
+  // 按距离由近到远挑选已有画面的相邻镜头
+  const siblings = cells
+    .map((cell, i) => ({ ...cell, index: i }))
+    .filter((cell) => cell.index !== index && cell.src)
+    .sort((a, b) => Math.abs(a.index - index) - Math.abs(b.index - index))
+    .slice(0, MAX_SIBLING_IMAGES);
+  const siblingBuffers: Buffer[] = [];
+  for (const sibling of siblings) {
+    try {
+      siblingBuffers.push(await compressImage(await u.oss.getFile(srcToPath(sibling.src!))));
+    } catch {
+      // 相邻镜头图已丢失时跳过，不影响重绘
+    }
+  }
+
+  const filteredImages = await filterRelevantAssets([target.prompt], resources, allImages);
+  const assetImages = filteredImages.slice(0, 10 - siblingBuffers.length);
+  const resourcesMapPrompts = buildResourcesMapPrompts(assetImages);
+  const siblingPrompts = siblingBuffers.length
+    ? `图片${assetImages.length + 1}${siblingBuffers.length > 1 ? `-图片${assetImages.length + siblingBuffers.length}` : ""}为同一分镜中相邻镜头的画面，仅用于保持人物样貌、服装、场景与色调光影一致，不要照搬其构图。`
+    : "";
+
+  const aspectRatio = projectInfo?.videoRatio ? (projectInfo.videoRatio as any) : "16:9";
+  const promptsData = await generateImagePromptsTool({
+    prompts: [target.prompt],
+    style: `类型：${projectInfo?.type!}，风格：${projectInfo?.artStyle!}`,
+    aspectRatio,
+    assetsName: resources,
+  });
+  const context = cells
+    .map((cell, i) => (cell.prompt ? `${i + 1}. ${cell.prompt}${i === index ? "（本镜头）" : ""}` : ""))
+    .filter(Boolean)
+    .join("\n");
+  const prompt = `${promptsData.prompt}\n\n只生成一张完整画面，不要宫格、分格或边框。\n同一分镜的镜头顺序如下，本镜头需与前后镜头衔接：\n${context}`;
+
+  const processedImages = await ensureTotalSizeLimit([...(await processImages(assetImages)), ...siblingBuffers]);
+  const apiConfig = await u.getPromptAi("storyboardImage");
+  const contentStr = await u.ai.image(
+    {
+      systemPrompt: `${resourcesMapPrompts}${siblingPrompts}`,
+      prompt,
+      size: "2K",
+      aspectRatio,
+      imageBase64: processedImages.map((buf) => buf.toString("base64")),
+    },
+    apiConfig,
+  );
+  return fitAspectRatio(decodeImage(contentStr), aspectRatio);
+}
+
+export default async (cells: { prompt: string }[], scriptId: number, projectId: number) => {
+  const { projectInfo, resources, allImages } = await loadReferenceAssets(scriptId, projectId);
 
   const cellPrompts = cells.map((c) => c.prompt);
 
@@ -321,9 +418,5 @@ export default async (cells: { prompt: string }[], scriptId: number, projectId:
     apiConfig,
   );
 
-  const match = contentStr.match(/base64,([A-Za-z0-9+/=]+)/);
-  const base64Str = match?.[1] ?? contentStr;
-  const buffer = Buffer.from(base64Str, "base64");
-
-  return buffer;
+  return decodeImage(contentStr);
 };
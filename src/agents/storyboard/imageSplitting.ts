@@ -1,12 +1,57 @@
 import sharp from "sharp";
 
-interface GridLayoutResult {
+export interface GridLayoutResult {
   cols: number;
   rows: number;
   totalCells: number;
   placeholderCount: number;
 }
 
+export interface SplitRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface SplitResult {
+  images: Buffer[];
+  layout: GridLayoutResult;
+  regions: SplitRegion[];
+  confidence: number; // 0-1，越低说明越可能切偏，低于 MIN_SPLIT_CONFIDENCE 建议重新生成
+}
+
+// 低于该置信度的分割结果建议重新生成
+export const MIN_SPLIT_CONFIDENCE = 0.6;
+// 像素分析时的最大边长，避免逐像素统计过慢
+const ANALYSIS_SIZE = 1200;
+// 在预期切线两侧搜索分隔线的范围（占单格尺寸的比例）
+const SEARCH_RATIO = 0.15;
+// 外边框最多裁掉的比例
+const MAX_BORDER_RATIO = 0.1;
+// 单格内残留边框最多裁掉的比例
+const MAX_CELL_TRIM_RATIO = 0.08;
+
+interface Gray {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface Cut {
+  end: number; // 前一格的结束位置（不含）
+  start: number; // 后一格的起始位置
+  confidence: number;
+}
+
+/**
+ * 竖屏比例（如 9:16）
+ */
+export function isPortrait(aspectRatio?: string) {
+  const [w, h] = (aspectRatio ?? "").split(":").map(Number);
+  return !!w && !!h && h > w;
+}
+
 /**
  * 计算宫格布局
  * 1张: 1x1
@@ -17,8 +62,9 @@ interface GridLayoutResult {
  * 10-12张: 3x4
  * 13-15张: 3x5
  * ...以此类推（3列，行数递增）
+ * 竖屏比例固定2列，行数递增
  */
-function calculateGridLayout(count: number): GridLayoutResult {
+export function calculateGridLayout(count: number, aspectRatio?: string): GridLayoutResult {
   let cols: number;
   let rows: number;
   if (count <= 0) {
@@ -30,6 +76,9 @@ function calculateGridLayout(count: number): GridLayoutResult {
   } else if (count === 2) {
     cols = 2;
     rows = 1;
+  } else if (isPortrait(aspectRatio)) {
+    cols = 2;
+    rows = Math.ceil(count / 2);
   } else if (count === 3) {
     cols = 3;
     rows = 1;
@@ -49,13 +98,190 @@ function calculateGridLayout(count: number): GridLayoutResult {
   return { cols, rows, totalCells, placeholderCount };
 }
 
+function toLayout(cols: number, rows: number, count: number): GridLayoutResult {
+  return { cols, rows, totalCells: cols * rows, placeholderCount: cols * rows - count };
+}
+
+// ==================== 像素统计 ====================
+
+function pixel(g: Gray, x: number, y: number) {
+  return g.data[y * g.width + x];
+}
+
 /**
- * 分割宫格图片
+ * 逐行（axis=row）或逐列（axis=col）统计亮度标准差，分隔线和边框是纯色，标准差接近 0
+ */
+function stdProfile(g: Gray, axis: "row" | "col", start: number, end: number, from: number, to: number) {
+  const result: number[] = [];
+  for (let i = start; i < end; i++) {
+    let sum = 0;
+    let sumSq = 0;
+    for (let j = from; j < to; j++) {
+      const v = axis === "row" ? pixel(g, j, i) : pixel(g, i, j);
+      sum += v;
+      sumSq += v * v;
+    }
+    const n = Math.max(to - from, 1);
+    const mean = sum / n;
+    result.push(Math.sqrt(Math.max(sumSq / n - mean * mean, 0)));
+  }
+  return result;
+}
+
+/**
+ * 相邻两行/两列的平均亮度差，没有分隔线的宫格在拼接处会出现明显跳变
+ */
+function edgeProfile(g: Gray, axis: "row" | "col", start: number, end: number, from: number, to: number) {
+  const result: number[] = [0];
+  for (let i = start + 1; i < end; i++) {
+    let diff = 0;
+    for (let j = from; j < to; j++) {
+      diff += axis === "row" ? Math.abs(pixel(g, j, i) - pixel(g, j, i - 1)) : Math.abs(pixel(g, i, j) - pixel(g, i - 1, j));
+    }
+    result.push(diff / Math.max(to - from, 1));
+  }
+  return result;
+}
+
+function median(values: number[]) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// 判定为纯色线的标准差阈值
+function lowThreshold(profile: number[]) {
+  return Math.max(3, median(profile) * 0.2);
+}
+
+/**
+ * 去掉两端的纯色边框，返回内容范围 [a, b)（相对 profile 下标）
+ */
+function trimBorders(profile: number[], threshold: number, maxRatio: number) {
+  const limit = Math.floor(profile.length * maxRatio);
+  let a = 0;
+  while (a < limit && profile[a] < threshold) a++;
+  let b = profile.length;
+  while (profile.length - b < limit && profile[b - 1] < threshold) b--;
+  return [a, b] as const;
+}
+
+/**
+ * 在每条预期切线附近寻找分隔线：优先找纯色线段，其次找亮度跳变，都没有时退回等分位置
+ */
+function findCuts(std: number[], edge: number[], a: number, b: number, count: number): Cut[] {
+  const threshold = lowThreshold(std.slice(a, b));
+  const edgeMedian = median(edge.slice(a, b)) || 1;
+  const cellSize = (b - a) / count;
+  const window = Math.max(2, Math.round(cellSize * SEARCH_RATIO));
+  const cuts: Cut[] = [];
+
+  for (let k = 1; k < count; k++) {
+    const expected = Math.round(a + cellSize * k);
+    const lo = Math.max(a + 1, expected - window);
+    const hi = Math.min(b - 1, expected + window);
+
+    // 纯色线段：向两侧延伸到完整长度
+    let best: { start: number; end: number; distance: number } | null = null;
+    for (let i = lo; i <= hi; i++) {
+      if (std[i] >= threshold) continue;
+      let start = i;
+      while (start > a && std[start - 1] < threshold) start--;
+      let end = i;
+      while (end < b - 1 && std[end + 1] < threshold) end++;
+      const distance = Math.abs((start + end) / 2 - expected);
+      if (!best || distance < best.distance) best = { start, end, distance };
+      i = end;
+    }
+    // 过宽的纯色区域更可能是画面本身（如天空），不视为分隔线
+    if (best && best.end - best.start + 1 < cellSize * 0.5) {
+      cuts.push({ end: best.start, start: best.end + 1, confidence: 1 - (Math.min(best.distance, window) / window) * 0.3 });
+      continue;
+    }
+
+    let peak = expected;
+    for (let i = lo; i <= hi; i++) if (edge[i] > edge[peak]) peak = i;
+    const ratio = edge[peak] / edgeMedian;
+    if (ratio >= 3) cuts.push({ end: peak, start: peak, confidence: Math.min(0.85, 0.5 + ratio / 20) });
+    else cuts.push({ end: expected, start: expected, confidence: 0.3 });
+  }
+  return cuts;
+}
+
+function spans(a: number, b: number, cuts: Cut[]) {
+  const bounds: Array<[number, number]> = [];
+  let start = a;
+  for (const cut of cuts) {
+    bounds.push([start, cut.end]);
+    start = cut.start;
+  }
+  bounds.push([start, b]);
+  return bounds;
+}
+
+/**
+ * 收缩单格区域，去掉残留的纯色边框
+ */
+function trimRegion(g: Gray, region: SplitRegion, threshold: number): SplitRegion {
+  let { left, top, width, height } = region;
+  const maxX = Math.floor(width * MAX_CELL_TRIM_RATIO);
+  const maxY = Math.floor(height * MAX_CELL_TRIM_RATIO);
+  const isFlat = (axis: "row" | "col", index: number) =>
+    axis === "row"
+      ? stdProfile(g, "row", index, index + 1, left, left + width)[0] < threshold
+      : stdProfile(g, "col", index, index + 1, top, top + height)[0] < threshold;
+
+  for (let n = 0; n < maxY && height > 2 && isFlat("row", top); n++) top++, height--;
+  for (let n = 0; n < maxY && height > 2 && isFlat("row", top + height - 1); n++) height--;
+  for (let n = 0; n < maxX && width > 2 && isFlat("col", left); n++) left++, width--;
+  for (let n = 0; n < maxX && width > 2 && isFlat("col", left + width - 1); n++) width--;
+  return { left, top, width, height };
+}
+
+/**
+ * 按给定布局在灰度图上定位各格区域
+ */
+function detectRegions(g: Gray, layout: GridLayoutResult, length: number) {
+  const rowStd = stdProfile(g, "row", 0, g.height, 0, g.width);
+  const [top, bottom] = trimBorders(rowStd, lowThreshold(rowStd), MAX_BORDER_RATIO);
+  const colStdAll = stdProfile(g, "col", 0, g.width, top, bottom);
+  const [left, right] = trimBorders(colStdAll, lowThreshold(colStdAll), MAX_BORDER_RATIO);
+
+  const rowCuts = findCuts(stdProfile(g, "row", 0, g.height, left, right), edgeProfile(g, "row", 0, g.height, left, right), top, bottom, layout.rows);
+  const confidences = rowCuts.map((c) => c.confidence);
+  const regions: SplitRegion[] = [];
+
+  // 逐行检测列分隔线，兼容各行宽度不完全一致的宫格
+  for (const [y0, y1] of spans(top, bottom, rowCuts)) {
+    const colCuts = findCuts(stdProfile(g, "col", 0, g.width, y0, y1), edgeProfile(g, "col", 0, g.width, y0, y1), left, right, layout.cols);
+    confidences.push(...colCuts.map((c) => c.confidence));
+    for (const [x0, x1] of spans(left, right, colCuts)) {
+      regions.push({ left: x0, top: y0, width: Math.max(x1 - x0, 1), height: Math.max(y1 - y0, 1) });
+    }
+  }
+
+  const threshold = lowThreshold(rowStd);
+  const cells = regions.slice(0, length).map((r) => trimRegion(g, r, threshold));
+
+  // 各格尺寸应大致相同，个别格明显偏大或偏小说明切偏了
+  const meanWidth = cells.reduce((s, r) => s + r.width, 0) / cells.length;
+  const meanHeight = cells.reduce((s, r) => s + r.height, 0) / cells.length;
+  const sizeScore = Math.min(
+    ...cells.map((r) => Math.max(0, 1 - Math.max(Math.abs(r.width / meanWidth - 1), Math.abs(r.height / meanHeight - 1)) * 2)),
+  );
+  const cutScore = confidences.length ? confidences.reduce((s, c) => s + c, 0) / confidences.length : 1;
+
+  return { regions: cells, confidence: Math.min(cutScore, sizeScore) };
+}
+
+/**
+ * 分割宫格图片：通过像素分析定位分隔线与边框后裁切
  * @param image - 输入的宫格图片 Buffer
  * @param length - 实际需要的图片数量（不包含占位图）
- * @returns 分割后的单张图片 Buffer 数组
+ * @param aspectRatio - 项目画幅比例，竖屏默认按2列分割
+ * @returns 分割后的单张图片及分割置信度
  */
-export default async (image: Buffer, length: number): Promise<Buffer[]> => {
+export default async (image: Buffer, length: number, aspectRatio?: string): Promise<SplitResult> => {
   const metadata = await sharp(image).metadata();
   const { width: totalWidth, height: totalHeight } = metadata;
 
@@ -63,32 +289,44 @@ export default async (image: Buffer, length: number): Promise<Buffer[]> => {
     throw new Error("无法获取图片尺寸");
   }
 
-  const { cols, rows } = calculateGridLayout(length);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(totalWidth, totalHeight));
+  const { data, info } = await sharp(image)
+    .resize(Math.max(1, Math.round(totalWidth * scale)), Math.max(1, Math.round(totalHeight * scale)), { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const gray: Gray = { data, width: info.width, height: info.height };
 
-  const cellWidth = Math.floor(totalWidth / cols);
-  const cellHeight = Math.floor(totalHeight / rows);
-
-  const buffers: Buffer[] = [];
-
-  for (let i = 0; i < length; i++) {
-    const row = Math.floor(i / cols);
-    const col = i % cols;
+  // 模型不一定按要求的列数出图，预期布局置信度低时尝试另一种列数
+  const expected = calculateGridLayout(length, aspectRatio);
+  const candidates = [expected];
+  for (const cols of [2, 3]) {
+    if (length > 2 && cols !== expected.cols) candidates.push(toLayout(cols, Math.ceil(length / cols), length));
+  }
 
-    const left = col * cellWidth;
-    const top = row * cellHeight;
+  let best: { layout: GridLayoutResult; regions: SplitRegion[]; confidence: number } | null = null;
+  for (const layout of candidates) {
+    const result = detectRegions(gray, layout, length);
+    if (!best || result.confidence > best.confidence) best = { layout, ...result };
+    if (best.confidence >= MIN_SPLIT_CONFIDENCE) break;
+  }
 
-    const cellBuffer = await sharp(image)
-      .extract({
-        left,
-        top,
-        width: cellWidth,
-        height: cellHeight,
-      })
-      .png()
-      .toBuffer();
+  // 换算回原图坐标
+  const regions = best!.regions.map((r) => {
+    const left = Math.min(Math.round(r.left / scale), totalWidth - 1);
+    const top = Math.min(Math.round(r.top / scale), totalHeight - 1);
+    return {
+      left,
+      top,
+      width: Math.max(1, Math.min(Math.round(r.width / scale), totalWidth - left)),
+      height: Math.max(1, Math.min(Math.round(r.height / scale), totalHeight - top)),
+    };
+  });
 
-    buffers.push(cellBuffer);
+  const images: Buffer[] = [];
+  for (const region of regions) {
+    images.push(await sharp(image).extract(region).png().toBuffer());
   }
 
-  return buffers;
+  return { images, layout: best!.layout, regions, confidence: Number(best!.confidence.toFixed(2)) };
 };
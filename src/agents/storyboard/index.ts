@@ -4,15 +4,34 @@ import { tool, ModelMessage, Tool } from "ai";
 import { EventEmitter } from "events";
 import { z } from "zod";
 import type { DB } from "@/types/database";
-import generateImageTool from "./generateImageTool";
-import imageSplitting from "./imageSplitting";
+import generateImageTool, { generateCellImage } from "./generateImageTool";
+import imageSplitting, { MIN_SPLIT_CONFIDENCE, SplitResult } from "./imageSplitting";
+import reviewStoryboard, { ReviewIssue } from "./reviewStoryboard";
 import path from "path";
 import sharp from "sharp";
+import compactHistory from "@/utils/ai/text/compactHistory";
+import { ToolTracer } from "@/utils/toolTrace";
+import ToolApproval from "@/utils/toolApproval";
+import AgentRun from "@/utils/agentRun";
+import {
+  AssetsType,
+  loadStoryboard,
+  saveSegments,
+  saveShots,
+  Segment,
+  Shot,
+  ShotCell,
+  ShotMeta,
+  shotMetaSchema,
+} from "@/utils/storyboardStore";
 
 // ==================== 类型定义 ====================
 
 type AgentType = "segmentAgent" | "shotAgent";
+const SUB_AGENTS: string[] = ["segmentAgent", "shotAgent", "reviewAgent"];
 type RefreshEvent = "storyline" | "outline" | "assets";
+// 宫格图分割置信度过低时重新生成的次数
+const MAX_SPLIT_RETRY = 1;
 
 // ==================== 常量配置 ====================
 
@@ -22,29 +41,36 @@ type RefreshEvent = "storyline" | "outline" | "assets";
 //   director: directorPrompts,
 // };
 
-// ==================== 类型定义：片段和画面 ====================
-
-interface Segment {
-  index: number;
-  description: string;
-  emotion?: string;
-  action?: string;
+const ISSUE_LABELS: Record<ReviewIssue["type"], string> = {
+  missingCharacter: "角色缺失",
+  wrongProp: "道具错误",
+  continuity: "连贯性",
+  offStyle: "画风不符",
+  other: "其他",
+};
+
+const SUGGESTION_LABELS: Record<ReviewIssue["suggestion"], string> = {
+  updatePrompt: "修改提示词后重绘",
+  regenerate: "重绘镜头",
+  none: "无需修改",
+};
+
+// 审核建议，等待用户采纳或忽略
+interface ReviewSuggestion extends ReviewIssue {
+  id: string;
+  cellId: string;
 }
 
-interface Shot {
-  id: number; // 分镜独立ID
-  segmentId: number; // 所属片段ID
-  title: string;
-  x: number;
-  y: number;
-  cells: Array<{ src?: string; prompt?: string; id?: string }>; // 镜头数组，每个cell是一个镜头
-  fragmentContent: string;
-  assetsTags: AssetsType[];
-}
-interface AssetsType {
-  type: "role" | "props" | "scene";
-  text: string;
+// 已连接的分镜 Agent（按剧本ID），接口修改分镜时需经由它们写入，否则会被内存中的旧数据覆盖
+const liveAgents = new Map<number, Set<Storyboard>>();
+
+/**
+ * 获取剧本当前已连接的分镜 Agent
+ */
+export function getLiveStoryboards(scriptId: number): Storyboard[] {
+  return [...(liveAgents.get(scriptId) ?? [])];
 }
+
 // ==================== 主类 ====================
 
 export default class Storyboard {
@@ -52,6 +78,7 @@ export default class Storyboard {
   private readonly scriptId: number;
   readonly emitter = new EventEmitter();
   history: ModelMessage[] = [];
+  memory = ""; // 压缩后的早期对话记忆
   novelChapters: DB["t_novel"][] = [];
 
   // 存储 segmentAgent 生成的片段结果
@@ -62,14 +89,52 @@ export default class Storyboard {
   private shotIdCounter: number = 0;
   // 存储正在生成分镜图的分镜ID
   private generatingShots: Set<number> = new Set();
+  // 存储正在重绘的镜头ID
+  private generatingCells: Set<string> = new Set();
+  // 分镜审核给出的待确认建议，按建议ID记录
+  private reviewSuggestions = new Map<string, ReviewSuggestion>();
+  // 当前调用的中止状态与已执行完成的工具
+  private readonly run = new AgentRun();
+  // 工具调用的推送
+  private readonly tracer = new ToolTracer((event, data) => this.emit(event, data));
+  // 危险工具执行前的用户确认
+  readonly approval = new ToolApproval((event, data) => this.emit(event, data));
+  // 从数据库恢复片段和分镜，完成后才能读写
+  readonly ready: Promise<void>;
 
   constructor(projectId: number, scriptId: number) {
     this.projectId = projectId;
     this.scriptId = scriptId;
+    this.ready = this.loadStoryboard();
+    if (!liveAgents.has(scriptId)) liveAgents.set(scriptId, new Set());
+    liveAgents.get(scriptId)!.add(this);
+  }
+
+  /**
+   * 连接断开时调用，之后接口修改分镜不再经由该 Agent
+   */
+  dispose() {
+    const agents = liveAgents.get(this.scriptId);
+    agents?.delete(this);
+    if (!agents?.size) liveAgents.delete(this.scriptId);
+  }
+
+  /**
+   * 修改单个镜头的提示词与镜头信息，未传的字段保持原值
+   */
+  async updateShotCell(shotId: number, cellId: string, patch: ShotMeta & { prompt?: string }) {
+    await this.ready;
+    const cell = this.shots.find((s) => s.id === shotId)?.cells.find((c) => c.id === cellId);
+    if (!cell) throw new Error("镜头不存在");
+    Object.assign(cell, patch);
+    await this.persistShots();
+    this.emit("shotsUpdated", this.shots);
+    return cell;
   }
 
   // 更新shopts
-  public updatePreShots(segmentId: number, cellId: number, cell: { src?: string; prompt?: string; id?: string }) {
+  public async updatePreShots(segmentId: number, cellId: number, cell: ShotCell) {
+    await this.ready;
     const shotIndex = this.shots.findIndex((item) => item.segmentId === segmentId);
     if (shotIndex === -1) {
       return `分镜 ${segmentId} 不存在，请检查分镜ID是否正确`;
@@ -79,6 +144,7 @@ export default class Storyboard {
       return `镜头 ${cellId} 不存在，请检查镜头ID是否正确`;
     }
     this.shots[shotIndex].cells[cellIndex] = { ...this.shots[shotIndex].cells[cellIndex], ...cell };
+    await this.persistShots();
   }
 
   // ==================== 公共方法 ====================
@@ -86,6 +152,17 @@ export default class Storyboard {
   get events() {
     return this.emitter;
   }
+
+  /**
+   * 中止正在进行的调用（含 Sub-Agent），已执行完成的工具不会回滚
+   * @returns 是否有进行中的调用
+   */
+  abort(): boolean {
+    if (!this.run.abort()) return false;
+    this.log("中止任务");
+    this.approval.cancelAll();
+    return true;
+  }
   // ==================== 私有工具方法 ====================
 
   private emit(event: string, data?: any) {
@@ -96,6 +173,21 @@ export default class Storyboard {
     this.emit("refresh", type);
   }
 
+  private async loadStoryboard() {
+    const { segments, shots } = await loadStoryboard(this.scriptId);
+    this.segments = segments;
+    this.shots = shots;
+    this.shotIdCounter = Math.max(0, ...shots.map((s) => s.id));
+  }
+
+  private persistSegments() {
+    return saveSegments(this.projectId, this.scriptId, this.segments);
+  }
+
+  private persistShots() {
+    return saveShots(this.projectId, this.scriptId, this.shots);
+  }
+
   private log(action: string, detail?: string) {
     const msg = detail ? `${action}: ${detail}` : action;
     console.log(`\n[${new Date().toLocaleTimeString()}] ${msg}\n`);
@@ -210,6 +302,7 @@ ${sections.join("\n\n")}
     execute: async ({ segments }: { segments: Segment[] }) => {
       this.log("更新片段数据", `共 ${segments.length} 个片段`);
       this.segments = segments;
+      await this.persistSegments();
       this.emit("segmentsUpdated", this.segments);
       return `成功存储 ${segments.length} 个片段`;
     },
@@ -220,13 +313,15 @@ ${sections.join("\n\n")}
    */
   addShots = tool({
     title: "addShots",
-    description: "添加新的分镜。每个分镜有独立ID，包含多个镜头（每个镜头对应一个提示词）。如果片段已存在分镜会跳过",
+    description:
+      "添加新的分镜。每个分镜有独立ID，包含多个镜头（每个镜头对应一个提示词），可同时填写每个镜头的景别、角度、运镜、时长、角色和台词。如果片段已存在分镜会跳过",
     inputSchema: z.object({
       shots: z
         .array(
           z.object({
             segmentIndex: z.number().describe("对应的片段序号"),
             prompts: z.array(z.string()).describe("镜头提示词数组，每个提示词对应一个镜头（中文）"),
+            details: z.array(shotMetaSchema).optional().describe("镜头信息数组，与 prompts 按顺序一一对应"),
             assetsTags: z.array(
               z.object({
                 type: z.enum(["role", "props", "scene"]).describe("资源类型"),
@@ -237,7 +332,11 @@ ${sections.join("\n\n")}
         )
         .describe("要添加的分镜数组"),
     }),
-    execute: async ({ shots }: { shots: Array<{ segmentIndex: number; prompts: string[]; assetsTags: AssetsType[] }> }) => {
+    execute: async ({
+      shots,
+    }: {
+      shots: Array<{ segmentIndex: number; prompts: string[]; details?: ShotMeta[]; assetsTags: AssetsType[] }>;
+    }) => {
       const added: { id: number; segmentIndex: number }[] = [];
       const skipped: number[] = [];
 
@@ -258,7 +357,7 @@ ${sections.join("\n\n")}
           title: `分镜 ${shotId}`,
           x: 0,
           y: 0,
-          cells: item.prompts.map((prompt) => ({ id: u.uuid(), prompt })),
+          cells: item.prompts.map((prompt, i) => ({ id: u.uuid(), prompt, ...item.details?.[i] })),
           fragmentContent: this.segments[resultIndex]?.description,
           assetsTags: item.assetsTags,
         });
@@ -267,6 +366,7 @@ ${sections.join("\n\n")}
 
       const addedInfo = added.map((a) => `分镜${a.id}(片段${a.segmentIndex})`).join(", ");
       this.log("添加分镜", `新增: [${addedInfo}], 跳过片段: [${skipped.join(", ")}]`);
+      await this.persistShots();
       this.emit("shotsUpdated", this.shots);
 
       if (skipped.length) {
@@ -278,16 +378,17 @@ ${sections.join("\n\n")}
 
   /**
    * 更新指定分镜（供 shotAgent 调用）
-   * 保留原有 cells 的 id 和 src 字段，只更新 prompt
+   * 保留原有 cells 的 id 和 src 字段，只更新 prompt 和传入的镜头信息
    */
   updateShots = tool({
     title: "updateShots",
-    description: "更新指定分镜的镜头提示词。通过分镜ID指定要修改的分镜",
+    description: "更新指定分镜的镜头提示词和镜头信息。通过分镜ID指定要修改的分镜，未传的镜头信息保持原值",
     inputSchema: z.object({
       shotId: z.number().describe("要更新的分镜ID"),
       prompts: z.array(z.string()).describe("新的镜头提示词数组，每个提示词对应一个镜头"),
+      details: z.array(shotMetaSchema).optional().describe("镜头信息数组，与 prompts 按顺序一一对应"),
     }),
-    execute: async ({ shotId, prompts }: { shotId: number; prompts: string[] }) => {
+    execute: async ({ shotId, prompts, details }: { shotId: number; prompts: string[]; details?: ShotMeta[] }) => {
       const existingIndex = this.shots.findIndex((item) => item.id === shotId);
 
       if (existingIndex === -1) {
@@ -300,15 +401,16 @@ ${sections.join("\n\n")}
       this.shots[existingIndex].cells = prompts.map((prompt, i) => {
         const existingCell = existingCells[i];
         if (existingCell) {
-          // 保留原有 cell 的 id 和 src，只更新 prompt
-          return { ...existingCell, prompt };
+          // 保留原有 cell 的 id 和 src，只更新 prompt 和镜头信息
+          return { ...existingCell, prompt, ...details?.[i] };
         } else {
           // 新增的 cell
-          return { id: u.uuid(), prompt };
+          return { id: u.uuid(), prompt, ...details?.[i] };
         }
       });
 
       this.log("更新分镜", `分镜 ${shotId}`);
+      await this.persistShots();
       this.emit("shotsUpdated", this.shots);
 
       return `已更新分镜 ${shotId}`;
@@ -339,6 +441,7 @@ ${sections.join("\n\n")}
       }
 
       this.log("删除分镜", `删除: [分镜${deleted.join(", 分镜")}], 未找到: [分镜${notFound.join(", 分镜")}]`);
+      await this.persistShots();
       this.emit("shotsUpdated", this.shots);
 
       if (notFound.length) {
@@ -412,6 +515,164 @@ ${sections.join("\n\n")}
     },
   });
 
+  /**
+   * 重新生成单个镜头（异步执行），只替换该镜头的图片，其余镜头保持不变
+   */
+  regenerateShotCell = tool({
+    title: "regenerateShotCell",
+    description:
+      "重新生成分镜中的单个镜头图片，不重绘整张宫格图。用于只有个别镜头不满意的情况，会参考同分镜其他镜头的画面保持一致。通过分镜ID和镜头序号（从1开始）指定",
+    inputSchema: z.object({
+      shotId: z.number().describe("分镜ID"),
+      cellIndex: z.number().describe("镜头序号，从1开始"),
+    }),
+    execute: async ({ shotId, cellIndex }: { shotId: number; cellIndex: number }) => {
+      const cellId = this.shots.find((s) => s.id === shotId)?.cells[cellIndex - 1]?.id;
+      if (!cellId) return `分镜 ${shotId} 的第 ${cellIndex} 个镜头不存在，请检查分镜ID和镜头序号`;
+      return this.regenerateCell(shotId, cellId);
+    },
+  });
+
+  /**
+   * 开始重绘单个镜头，生成过程在后台进行，完成后推送 cellImageGenerateComplete
+   */
+  async regenerateCell(shotId: number, cellId: string) {
+    await this.ready;
+    const shot = this.shots.find((s) => s.id === shotId);
+    if (!shot) return `分镜 ${shotId} 不存在，请检查分镜ID是否正确`;
+    const index = shot.cells.findIndex((c) => c.id === cellId);
+    if (index === -1) return `镜头 ${cellId} 不存在，请检查镜头ID是否正确`;
+    if (!shot.cells[index].prompt) return `分镜 ${shotId} 的第 ${index + 1} 个镜头没有提示词`;
+    if (this.generatingShots.has(shotId)) return `分镜 ${shotId} 正在整体生成中，请稍候`;
+    if (this.generatingCells.has(cellId)) return `分镜 ${shotId} 的第 ${index + 1} 个镜头正在重绘中，请稍候`;
+
+    this.generatingCells.add(cellId);
+    this.emit("cellImageGenerateStart", { shotId, cellId });
+    this.log("开始重绘镜头", `分镜 ${shotId} 第 ${index + 1} 个镜头`);
+    this.generateSingleCellImage(shotId, cellId, index);
+    return `已开始重绘分镜 ${shotId} 的第 ${index + 1} 个镜头，生成过程在后台进行`;
+  }
+
+  private async generateSingleCellImage(shotId: number, cellId: string, index: number): Promise<void> {
+    try {
+      const shot = this.shots.find((s) => s.id === shotId)!;
+      const buffer = await generateCellImage(shot.cells, index, this.scriptId, this.projectId);
+
+      const fileName = `${this.projectId}/chat/${this.scriptId}/storyboard/shot_${shotId}_cell_${cellId}_${Date.now()}.png`;
+      await u.oss.writeFile(fileName, buffer);
+      const src = await u.oss.getFileUrl(fileName);
+
+      // 生成期间分镜可能已被修改，按镜头ID重新定位，只替换该镜头的图片
+      const cell = this.shots.find((s) => s.id === shotId)?.cells.find((c) => c.id === cellId);
+      if (!cell) throw new Error("镜头已被删除");
+      cell.src = src;
+      await this.persistShots();
+
+      this.generatingCells.delete(cellId);
+      this.emit("cellImageGenerateComplete", { shotId, cellId, src });
+      this.emit("shotsUpdated", this.shots);
+      this.log("镜头重绘完成", `分镜 ${shotId} 镜头 ${cellId}`);
+    } catch (err: any) {
+      this.generatingCells.delete(cellId);
+      this.emit("cellImageGenerateError", { shotId, cellId, error: err.message });
+      this.log("镜头重绘失败", `分镜 ${shotId} 镜头 ${cellId}: ${err.message}`);
+    }
+  }
+
+  // ==================== 分镜审核 ====================
+
+  /**
+   * 调用分镜审核（供主 Agent 调用），建议推送给用户确认，不直接修改分镜
+   */
+  reviewAgent = tool({
+    title: "reviewAgent",
+    description:
+      "调用分镜审核师。使用识图模型对照剧本、片段和资产列表检查已生成的镜头图，找出角色缺失、道具错误、连贯性问题和画风不符，给出修改提示词或重绘的建议供用户确认。不传 shotIds 时审核全部已出图的分镜",
+    inputSchema: z.object({
+      shotIds: z.array(z.number()).optional().describe("要审核的分镜ID数组"),
+      focus: z.string().optional().describe("用户额外要求关注的问题"),
+    }),
+    execute: async ({ shotIds, focus }: { shotIds?: number[]; focus?: string }) => this.reviewShots(shotIds, focus),
+  });
+
+  private async reviewShots(shotIds?: number[], focus?: string) {
+    const targets = this.shots.filter((s) => (!shotIds?.length || shotIds.includes(s.id)) && s.cells.some((c) => c.src));
+    if (!targets.length) return "没有已生成图片的分镜可以审核，请先生成分镜图";
+
+    this.emit("transfer", { to: "reviewAgent" });
+    this.log("Sub-Agent 调用", "reviewAgent");
+    let result;
+    try {
+      result = await reviewStoryboard({
+        projectId: this.projectId,
+        scriptId: this.scriptId,
+        shots: targets,
+        segments: this.segments,
+        focus,
+        abortSignal: this.run.signal,
+      });
+    } finally {
+      this.emit("subAgentEnd", { agent: "reviewAgent" });
+    }
+
+    // 重新审核的分镜，旧建议作废
+    const reviewedIds = targets.map((s) => s.id);
+    for (const [id, item] of this.reviewSuggestions) {
+      if (reviewedIds.includes(item.shotId)) this.reviewSuggestions.delete(id);
+    }
+    const suggestions = result.issues.map((issue) => {
+      const cellId = targets.find((s) => s.id === issue.shotId)!.cells[issue.cellIndex - 1].id!;
+      return { ...issue, id: u.uuid(), cellId };
+    });
+    for (const item of suggestions) this.reviewSuggestions.set(item.id, item);
+    this.emit("reviewSuggestions", { summary: result.summary, suggestions: [...this.reviewSuggestions.values()] });
+    this.log("Sub-Agent 完成", `reviewAgent，审核 ${result.reviewedCells} 个镜头，发现 ${suggestions.length} 个问题`);
+
+    if (!suggestions.length) return `已审核 ${result.reviewedCells} 个镜头，未发现问题。\n${result.summary}`;
+    const lines = suggestions.map(
+      (s) =>
+        `- 分镜${s.shotId} 镜头${s.cellIndex}【${ISSUE_LABELS[s.type]}/${s.severity}】${s.description} → ${SUGGESTION_LABELS[s.suggestion]}` +
+        (s.prompt ? `：${s.prompt}` : ""),
+    );
+    return `已审核 ${result.reviewedCells} 个镜头，发现 ${suggestions.length} 个问题：
+${lines.join("\n")}
+
+${result.summary}
+
+以上建议已推送给用户，由用户逐条采纳后执行。请向用户说明审核结果，不要自行调用 updateShots 或 regenerateShotCell 执行这些建议`;
+  }
+
+  /**
+   * 采纳审核建议：修改提示词的先更新提示词，再重绘该镜头
+   */
+  async applyReviewSuggestion(id: string) {
+    await this.ready;
+    const suggestion = this.reviewSuggestions.get(id);
+    if (!suggestion) return "审核建议不存在或已处理";
+    this.reviewSuggestions.delete(id);
+    this.emit("reviewSuggestions", { suggestions: [...this.reviewSuggestions.values()] });
+
+    const cell = this.shots.find((s) => s.id === suggestion.shotId)?.cells.find((c) => c.id === suggestion.cellId);
+    if (!cell) return `分镜 ${suggestion.shotId} 的第 ${suggestion.cellIndex} 个镜头已被删除`;
+    if (suggestion.suggestion === "none") return "该建议无需修改";
+
+    if (suggestion.suggestion === "updatePrompt" && suggestion.prompt) {
+      cell.prompt = suggestion.prompt;
+      await this.persistShots();
+      this.emit("shotsUpdated", this.shots);
+    }
+    return this.regenerateCell(suggestion.shotId, suggestion.cellId);
+  }
+
+  /**
+   * 忽略审核建议
+   */
+  dismissReviewSuggestion(id: string) {
+    if (!this.reviewSuggestions.delete(id)) return "审核建议不存在或已处理";
+    this.emit("reviewSuggestions", { suggestions: [...this.reviewSuggestions.values()] });
+    return "已忽略该审核建议";
+  }
+
   /**
    * 执行分镜图生成的具体逻辑（异步并发）
    * 每个分镜包含多个镜头，所有镜头的提示词合并生成一张宫格图，再分割为单张镜头图片
@@ -437,20 +698,31 @@ ${sections.join("\n\n")}
         return;
       }
 
-      // 通知前端正在生成该分镜
-      this.emit("shotImageGenerateProgress", { shotId, status: "generating", message: "正在调用 AI 生成宫格图片" });
-
-      // 根据所有镜头提示词生成宫格图片
-      const gridImage = await generateImageTool(
-        prompts.map((p) => ({ prompt: p })),
-        this.scriptId,
-        this.projectId,
-      );
-      // 通知前端正在分割图片
-      this.emit("shotImageGenerateProgress", { shotId, status: "splitting", message: "正在分割宫格图片为单张镜头图" });
-
-      // 分割宫格图片为单张镜头图片
-      const imageBuffers = await imageSplitting(gridImage, prompts.length);
+      const project = await u.db("t_project").where({ id: this.projectId }).select("videoRatio").first();
+      let split: SplitResult | null = null;
+      for (let attempt = 0; attempt <= MAX_SPLIT_RETRY; attempt++) {
+        // 通知前端正在生成该分镜
+        this.emit("shotImageGenerateProgress", { shotId, status: "generating", message: "正在调用 AI 生成宫格图片" });
+
+        // 根据所有镜头提示词生成宫格图片
+        const gridImage = await generateImageTool(
+          prompts.map((p) => ({ prompt: p })),
+          this.scriptId,
+          this.projectId,
+        );
+        // 通知前端正在分割图片
+        this.emit("shotImageGenerateProgress", { shotId, status: "splitting", message: "正在分割宫格图片为单张镜头图" });
+
+        // 分割宫格图片为单张镜头图片，分隔线识别不可靠时重新生成
+        const result = await imageSplitting(gridImage, prompts.length, project?.videoRatio ?? undefined);
+        if (!split || result.confidence > split.confidence) split = result;
+        if (split.confidence >= MIN_SPLIT_CONFIDENCE) break;
+        this.log("宫格图分割置信度低", `分镜 ${shotId}: ${result.confidence}`);
+        if (attempt < MAX_SPLIT_RETRY) {
+          this.emit("shotImageGenerateProgress", { shotId, status: "retrying", message: `宫格分割置信度过低（${result.confidence}），正在重新生成` });
+        }
+      }
+      const imageBuffers = split!.images;
 
       // 通知前端正在保存图片
       this.emit("shotImageGenerateProgress", { shotId, status: "saving", message: `正在保存 ${imageBuffers.length} 张镜头图片` });
@@ -482,8 +754,9 @@ ${sections.join("\n\n")}
       }));
 
       // 生成完成后更新状态
+      await this.persistShots();
       this.generatingShots.delete(shotId);
-      this.emit("shotImageGenerateComplete", { shotId, shot, imagePaths });
+      this.emit("shotImageGenerateComplete", { shotId, shot, imagePaths, splitConfidence: split!.confidence });
       this.emit("shotsUpdated", this.shots);
       this.log("分镜图生成完成", `分镜 ${shotId}，共 ${imagePaths.length} 张镜头图片`);
     } catch (err: any) {
@@ -548,8 +821,9 @@ ${assetList}
   }
 
   private buildConversationHistory(): string {
-    if (!this.history.length) return "无对话历史";
-    return this.history.map(({ role, content }) => `${role}: ${content}`).join("\n\n");
+    if (!this.history.length && !this.memory) return "无对话历史";
+    const memory = this.memory ? `【早期对话记忆】\n${this.memory}\n\n` : "";
+    return memory + this.history.map(({ role, content }) => `${role}: ${content}`).join("\n\n");
   }
 
   private async buildFullContext(task: string): Promise<string> {
@@ -591,6 +865,7 @@ ${task}
           updateShots: this.updateShots,
           deleteShots: this.deleteShots,
           generateShotImage: this.generateShotImage,
+          regenerateShotCell: this.regenerateShotCell,
         };
       default:
         return {
@@ -627,22 +902,25 @@ ${task}
     const { fullStream } = await u.ai.text.stream(
       {
         system: SYSTEM_PROMPTS[agentType],
-        tools: this.getSubAgentTools(agentType),
+        tools: this.approval.guard(this.getSubAgentTools(agentType), agentType, this.run, SUB_AGENTS),
         messages: [{ role: "user", content: context }],
         maxStep: 100,
+        abortSignal: this.run.signal,
       },
       promptConfig,
     );
 
     let fullResponse = "";
-    for await (const item of fullStream) {
-      if (item.type == "tool-call") {
-        this.emit("toolCall", { agent: "main", name: item.title, args: null });
-      }
-      if (item.type == "text-delta") {
-        fullResponse += item.text;
-        this.emit("subAgentStream", { agent: agentType, text: item.text });
+    try {
+      for await (const item of fullStream) {
+        this.tracer.trace(item, agentType);
+        if (item.type == "text-delta") {
+          fullResponse += item.text;
+          this.emit("subAgentStream", { agent: agentType, text: item.text });
+        }
       }
+    } catch (err) {
+      if (!this.run.aborted) throw err;
     }
 
     this.emit("subAgentEnd", { agent: agentType });
@@ -666,6 +944,28 @@ ${task}
     });
   }
 
+  // ==================== 历史压缩 ====================
+
+  /**
+   * 历史记录超出 token 预算时，把较早的轮次压缩进对话记忆
+   */
+  private async compactHistory(promptConfig: Awaited<ReturnType<typeof u.getPromptAi>>) {
+    let result: Awaited<ReturnType<typeof compactHistory>>;
+    try {
+      result = await compactHistory(this.history, this.memory, promptConfig, this.run.signal);
+    } catch (err) {
+      // 压缩时被中止则保留原历史，由后续的中止流程处理
+      if (this.run.aborted) return;
+      throw err;
+    }
+    if (!result.compacted) return;
+    const removed = this.history.length - result.history.length;
+    this.history = result.history;
+    this.memory = result.memory;
+    this.log("压缩对话历史", `合并 ${removed} 条消息，剩余约 ${result.tokens} tokens`);
+    this.emit("compacted", { removed, tokens: result.tokens, memory: result.memory });
+  }
+
   // ==================== 主入口 ====================
 
   private getAllTools() {
@@ -678,55 +978,82 @@ ${task}
         "shotAgent",
         "调用分镜师。负责根据片段生成分镜提示词，会自行调用 getSegments 获取片段数据，并调用 addShots/updateShots 保存分镜结果。",
       ),
-      // this.createSubAgentTool("director", "调用导演。负责审核故事线和大纲，会自行调用 updateOutline 或 saveStoryline 进行修改。"),
+      reviewAgent: this.reviewAgent,
       getScript: this.getScript,
       getSegments: this.getSegments,
       generateShotImage: this.generateShotImage,
+      regenerateShotCell: this.regenerateShotCell,
       ...this.getSubAgentTools("segmentAgent"),
       ...this.getSubAgentTools("shotAgent"),
     };
   }
 
+  /**
+   * 中止时工具调用的消息不完整，只记录已输出的文本与已执行的操作
+   */
+  private finishAborted(text: string) {
+    this.history.push({ role: "assistant", content: this.run.abortedReply(text) });
+    this.emit("aborted", { text, committed: this.run.committed });
+    return text;
+  }
+
   async call(msg: string): Promise<string> {
+    await this.ready;
     this.history.push({
       role: "user",
       content: msg,
     });
 
-    const envContext = await this.buildEnvironmentContext();
-
-    const prompts = await u.db("t_prompts").where("code", "storyboard-main").first();
-    const promptConfig = await u.getPromptAi("storyboardAgent");
+    const abortSignal = this.run.start();
+    try {
+      const envContext = await this.buildEnvironmentContext();
+
+      const prompts = await u.db("t_prompts").where("code", "storyboard-main").first();
+      const promptConfig = await u.getPromptAi("storyboardAgent");
+
+      const mainPrompts = prompts?.customValue || prompts?.defaultValue || "不论用户说什么，请直接输出Agent配置异常";
+
+      await this.compactHistory(promptConfig);
+      // 准备阶段已被中止时不再发起请求
+      if (this.run.aborted) return this.finishAborted("");
+      const memory = this.memory ? `\n<对话记忆>\n${this.memory}\n</对话记忆>\n` : "";
+
+      const { fullStream } = await u.ai.text.stream(
+        {
+          system: `${envContext}\n${memory}${mainPrompts}`,
+          tools: this.approval.guard(this.getAllTools(), "main", this.run, SUB_AGENTS),
+          messages: this.history,
+          maxStep: 100,
+          abortSignal,
+        },
+        promptConfig,
+      );
 
-    const mainPrompts = prompts?.customValue || prompts?.defaultValue || "不论用户说什么，请直接输出Agent配置异常";
+      let fullResponse = "";
+      try {
+        for await (const item of fullStream) {
+          this.tracer.trace(item, "main");
+          if (item.type == "text-delta") {
+            fullResponse += item.text;
+            this.emit("data", item.text);
+          }
+        }
+      } catch (err) {
+        if (!this.run.aborted) throw err;
+      }
 
-    const { fullStream } = await u.ai.text.stream(
-      {
-        system: `${envContext}\n${mainPrompts}`,
-        tools: this.getAllTools(),
-        messages: this.history,
-        maxStep: 100,
-      },
-      promptConfig,
-    );
+      if (this.run.aborted) return this.finishAborted(fullResponse);
 
-    let fullResponse = "";
-    for await (const item of fullStream) {
-      if (item.type == "tool-call") {
-        this.emit("toolCall", { agent: "main", name: item.title, args: null });
-      }
-      if (item.type == "text-delta") {
-        fullResponse += item.text;
-        this.emit("data", item.text);
-      }
-    }
-    this.history.push({
-      role: "assistant",
-      content: fullResponse,
-    });
+      this.history.push({
+        role: "assistant",
+        content: fullResponse,
+      });
 
-    this.emit("response", fullResponse);
+      this.emit("response", fullResponse);
 
-    return fullResponse;
+      return fullResponse;
+    } finally {
+      this.run.finish();
+    }
   }
 }
@@ -0,0 +1,165 @@
+import u from "@/utils";
+import sharp from "sharp";
+import { z } from "zod";
+import { supportsImage } from "@/utils/ai/text";
+import { describeShotMeta, Segment, Shot } from "@/utils/storyboardStore";
+import { srcToPath } from "./generateImageTool";
+
+// 单次请求最多附带的镜头图数量，超出时按分镜分批审核
+const MAX_REVIEW_IMAGES = 12;
+// 镜头图缩放后的最大边长，审核不需要原图精度
+const REVIEW_IMAGE_SIZE = 768;
+
+export const reviewIssueSchema = z.object({
+  shotId: z.number().describe("分镜ID"),
+  cellIndex: z.number().describe("镜头序号，从1开始"),
+  type: z
+    .enum(["missingCharacter", "wrongProp", "continuity", "offStyle", "other"])
+    .describe("问题类型：角色缺失、道具错误、连贯性问题、画风不符、其他"),
+  severity: z.enum(["high", "medium", "low"]).describe("严重程度：high 必须修改，medium 建议修改，low 可接受"),
+  description: z.string().describe("问题描述"),
+  suggestion: z.enum(["updatePrompt", "regenerate", "none"]).describe("修改建议：修改提示词后重绘、直接重绘、无需修改"),
+  prompt: z.string().nullable().describe("suggestion 为 updatePrompt 时的完整新提示词，否则为 null"),
+});
+
+export type ReviewIssue = z.infer<typeof reviewIssueSchema>;
+
+export interface ReviewResult {
+  summary: string;
+  issues: ReviewIssue[];
+  reviewedCells: number;
+}
+
+interface ReviewInput {
+  projectId: number;
+  scriptId: number;
+  shots: Shot[];
+  segments: Segment[];
+  focus?: string; // 用户额外指定的关注点
+  abortSignal?: AbortSignal;
+}
+
+// 优先使用单独配置的审核模型，未配置时沿用分镜Agent的模型
+async function getReviewConfig() {
+  const review = await u.getPromptAi("storyboardReview");
+  const config = "model" in review && review.model ? review : await u.getPromptAi("storyboardAgent");
+  if (!supportsImage(config)) throw new Error("分镜审核需要支持图片输入的模型，请在模型配置中为「分镜审核」选择识图模型");
+  return config;
+}
+
+async function loadCellImage(src: string) {
+  const buffer = await u.oss.getFile(srcToPath(src));
+  const jpeg = await sharp(buffer)
+    .resize(REVIEW_IMAGE_SIZE, REVIEW_IMAGE_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
+
+// 剧本、片段、资产和画风，每批审核共用
+async function buildReviewContext(projectId: number, scriptId: number, segments: Segment[]) {
+  const project = await u.db("t_project").where({ id: projectId }).select("artStyle", "videoRatio").first();
+  const script = await u.db("t_script").where({ id: scriptId, projectId }).first();
+  const row = script?.outlineId ? await u.db("t_outline").where({ id: script.outlineId, projectId }).first() : null;
+  const outline: any | null = row?.data ? JSON.parse(row.data) : null;
+
+  const assetSection = (label: string, items?: Array<{ name: string; description?: string }>) =>
+    items?.length ? `【${label}】\n${items.map((i) => `- ${i.name}${i.description ? `：${i.description}` : ""}`).join("\n")}` : "";
+  const assets =
+    [assetSection("角色", outline?.characters), assetSection("道具", outline?.props), assetSection("场景", outline?.scenes)]
+      .filter(Boolean)
+      .join("\n\n") || "无";
+  const segmentText = segments.map((s) => `片段${s.index}：${s.description}${s.emotion ? `（情绪：${s.emotion}）` : ""}`).join("\n") || "无";
+
+  return `<项目画风>${project?.artStyle || "未知"}，画幅 ${project?.videoRatio || "未知"}</项目画风>
+
+<剧本>
+${script?.content ?? ""}
+</剧本>
+
+<片段>
+${segmentText}
+</片段>
+
+<资产列表>
+${assets}
+</资产列表>`;
+}
+
+// 按分镜分批，每批镜头图不超过上限，同一分镜的镜头始终在同一批以便检查连贯性
+function batchShots(shots: Shot[]) {
+  const batches: Shot[][] = [];
+  let current: Shot[] = [];
+  let count = 0;
+  for (const shot of shots) {
+    const images = shot.cells.filter((c) => c.src).length;
+    if (current.length && count + images > MAX_REVIEW_IMAGES) {
+      batches.push(current);
+      current = [];
+      count = 0;
+    }
+    current.push(shot);
+    count += images;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+async function buildShotParts(shots: Shot[]) {
+  const parts: Array<{ type: "text"; text: string } | { type: "image"; image: string }> = [];
+  for (const shot of shots) {
+    parts.push({ type: "text", text: `## 分镜 ${shot.id}（片段${shot.segmentId + 1}）\n${shot.fragmentContent ?? ""}` });
+    for (const [i, cell] of shot.cells.slice(0, MAX_REVIEW_IMAGES).entries()) {
+      const meta = describeShotMeta(cell);
+      parts.push({ type: "text", text: `分镜 ${shot.id} 镜头 ${i + 1}：${cell.prompt ?? ""}${meta ? `\n${meta}` : ""}${cell.src ? "" : "\n（未生成图片）"}` });
+      if (cell.src) parts.push({ type: "image", image: await loadCellImage(cell.src) });
+    }
+  }
+  return parts;
+}
+
+/**
+ * 使用识图模型对照剧本、片段和资产审核已生成的镜头图，返回问题和修改建议
+ */
+export default async function reviewStoryboard({ projectId, scriptId, shots, segments, focus, abortSignal }: ReviewInput): Promise<ReviewResult> {
+  const config = await getReviewConfig();
+  const promptRow = await u.db("t_prompts").where("code", "storyboard-review").first();
+  const system = promptRow?.customValue || promptRow?.defaultValue || "不论用户说什么，请直接输出Agent配置异常";
+  const context = await buildReviewContext(projectId, scriptId, segments);
+
+  const summaries: string[] = [];
+  const issues: ReviewIssue[] = [];
+  let reviewedCells = 0;
+  for (const batch of batchShots(shots)) {
+    const shotParts = await buildShotParts(batch);
+    reviewedCells += shotParts.filter((p) => p.type === "image").length;
+
+    const result = await u.ai.text.invoke(
+      {
+        system,
+        messages: [
+          {
+            role: "user",
+            content: [{ type: "text", text: `${context}${focus ? `\n\n<审核重点>${focus}</审核重点>` : ""}\n\n# 待审核分镜` }, ...shotParts],
+          },
+        ],
+        output: {
+          summary: z.string().describe("整体审核结论，2-4句话"),
+          issues: z.array(reviewIssueSchema).describe("发现的问题，没有问题时为空数组"),
+        },
+        abortSignal,
+      },
+      config,
+    );
+    if (!result) throw new Error("AI 返回结果为空");
+
+    if (result.summary) summaries.push(result.summary);
+    // 丢弃指向不存在镜头的问题
+    for (const issue of result.issues ?? []) {
+      const shot = batch.find((s) => s.id === issue.shotId);
+      if (shot?.cells[issue.cellIndex - 1]) issues.push(issue);
+    }
+  }
+
+  return { summary: summaries.join("\n"), issues, reviewedCells };
+}
@@ -10,6 +10,7 @@ import fs from "fs";
 import path from "path";
 import u from "@/utils";
 import jwt from "jsonwebtoken";
+import { resumeBatchScriptTasks } from "@/utils/batchScript";
 
 const app = express();
 let server: ReturnType<typeof app.listen> | null = null;
@@ -82,6 +83,7 @@ export default async function startServe() {
     const address = server?.address();
     const realPort = typeof address === "string" ? address : address?.port;
     console.log(`[服务启动成功]: http://localhost:${realPort}`);
+    await resumeBatchScriptTasks().catch((err) => console.error("[批量生成剧本] 恢复任务失败:", err));
   });
 }
 
@@ -30,6 +30,26 @@ export default async (knex: Knex): Promise<void> => {
   await addColumn("t_config", "modelType", "text");
   await addColumn("t_videoConfig", "audioEnabled", "integer");
   await addColumn("t_video", "errorReason", "text");
+  await addColumn("t_novel", "contentHash", "text");
+  await addColumn("t_outline", "sourceHash", "text");
+  await addColumn("t_outline", "stale", "integer");
+  await addColumn("t_script", "sourceHash", "text");
+  await addColumn("t_script", "stale", "integer");
+  await addColumn("t_script", "structure", "text");
+  await addColumn("t_assets", "stale", "integer");
+  await addColumn("t_assets", "shotMeta", "text");
+  await addColumn("t_chatHistory", "name", "text");
+  await addColumn("t_chatHistory", "createTime", "integer");
+  await addColumn("t_chatHistory", "updateTime", "integer");
+  await addColumn("t_chatHistory", "summary", "text");
+  await addColumn("t_project", "toolPermission", "text");
+  await addColumn("t_storyline", "type", "text");
+  await addColumn("t_storyline", "structure", "text");
+  await addColumn("t_taskList", "type", "text");
+  await addColumn("t_taskList", "params", "text");
+  await addColumn("t_taskList", "total", "integer");
+  await addColumn("t_taskList", "finished", "integer");
+  await addColumn("t_taskList", "failed", "integer");
 
   //更正字段
   await alterColumnType("t_config", "modelType", "text");
@@ -55,6 +75,19 @@ export default async (knex: Knex): Promise<void> => {
       customValue: null,
     });
   }
+  const storyboardReview = await knex("t_prompts").where("code", "storyboard-review").first();
+  if (!storyboardReview) {
+    await knex("t_prompts").insert({
+      id: 23,
+      code: "storyboard-review",
+      name: "分镜Agent-分镜审核",
+      type: "subAgent",
+      parentCode: "storyboard-main",
+      defaultValue:
+        "# 分镜审核师\n\n你是资深的影视分镜审核师，负责对照剧本、片段和资产列表检查已生成的分镜镜头图，找出需要修改的镜头。\n\n## 输入\n- 项目画风、剧本内容、片段列表、资产列表（角色、道具、场景及描述）\n- 每个分镜的镜头说明（提示词、景别、角色、台词等），有图片的镜头在说明后附上对应图片\n\n## 检查项\n1. **missingCharacter 角色缺失**：提示词或剧本要求出场的角色没有出现在画面中，或出现了不该出现的角色，或角色外貌与资产描述不符\n2. **wrongProp 道具错误**：关键道具缺失、外观与资产描述不符，或出现剧本中没有的显眼道具\n3. **continuity 连贯性**：相邻镜头之间服装、发型、伤痕、道具位置、光线与时间、人物站位和朝向不一致\n4. **offStyle 画风不符**：画面风格与项目画风不符，或与同分镜其他镜头差异明显\n5. **other 其他**：画面与提示词严重不符、构图错误、文字乱码、肢体畸形等\n\n## 输出要求\n- 只报告确实存在的问题，没有问题的镜头不要输出\n- 每个问题必须给出 shotId 和 cellIndex（镜头序号，从1开始）\n- severity：high 必须修改，medium 建议修改，low 可接受\n- suggestion：\n  - updatePrompt：提示词本身有误或缺少关键信息，在 prompt 中给出完整的新提示词（中文）\n  - regenerate：提示词正确但画面没有画对，直接重绘，prompt 为 null\n  - none：仅提示，无需修改，prompt 为 null\n- 资产名称必须与资产列表完全一致\n- summary 用2-4句话总结整体质量和主要问题",
+      customValue: null,
+    });
+  }
   const aiModels = [
     { name: "分镜Agent", key: "storyboardAgent" },
     { name: "分镜Agent图片生成", key: "storyboardImage" },
@@ -64,6 +97,7 @@ export default async (knex: Knex): Promise<void> => {
     { name: "剧本生成", key: "generateScript" },
     { name: "视频提示词生成", key: "videoPrompt" },
     { name: "图片编辑", key: "editImage" },
+    { name: "分镜审核（需识图模型）", key: "storyboardReview" },
   ];
   const keys = aiModels.map((m) => m.key);
   const existItems = await knex("t_aiModelMap").whereIn("key", keys).select("key");
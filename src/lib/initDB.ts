@@ -39,6 +39,8 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.integer("segmentId");
         table.integer("shotIndex");
         table.text("state");
+        table.integer("stale"); // 分镜所属剧本的原文已修改
+        table.text("shotMeta"); // 镜头信息 JSON：景别、角度、运镜、时长、角色、台词
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -48,9 +50,13 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
       builder: (table) => {
         table.integer("id").notNullable();
         table.text("type");
+        table.text("name"); // 会话名称
         table.text("data");
+        table.text("summary"); // 压缩后的早期对话记忆
         table.text("novel");
         table.integer("projectId");
+        table.integer("createTime");
+        table.integer("updateTime");
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -63,6 +69,7 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.text("reel");
         table.text("chapter");
         table.text("chapterData");
+        table.text("contentHash"); // 正文哈希，用于检测大纲/剧本是否过期
         table.integer("projectId");
         table.integer("createTime");
         table.primary(["id"]);
@@ -76,6 +83,8 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.integer("episode");
         table.text("data");
         table.integer("projectId");
+        table.text("sourceHash"); // 生成时所依据章节的哈希 JSON {章节号: 哈希}
+        table.integer("stale"); // 原文已修改，需要重新生成
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -88,6 +97,8 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.text("content");
         table.text("novelIds");
         table.integer("projectId");
+        table.text("type"); // main 主线 / subplot 支线
+        table.text("structure"); // 结构化故事线（幕/弧线）JSON
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -101,6 +112,7 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.text("type");
         table.text("artStyle");
         table.text("videoRatio");
+        table.text("toolPermission"); // Agent危险操作确认模式：auto 直接执行，confirm 需用户确认
         table.integer("createTime");
         table.integer("userId");
         table.primary(["id"]);
@@ -114,6 +126,9 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.text("content");
         table.integer("projectId");
         table.integer("outlineId");
+        table.text("sourceHash"); // 生成时所依据章节的哈希 JSON {章节号: 哈希}
+        table.integer("stale"); // 原文已修改，需要重新生成
+        table.text("structure"); // 解析后的剧本结构 JSON（场景、镜头、台词、转场）
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -170,6 +185,11 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
         table.text("state");
         table.text("startTime");
         table.text("endTime");
+        table.text("type"); // 任务类型，如 batchScript
+        table.text("params"); // 任务参数 JSON
+        table.integer("total"); // 子任务总数
+        table.integer("finished"); // 已成功数
+        table.integer("failed"); // 已失败数
         table.primary(["id"]);
         table.unique(["id"]);
       },
@@ -290,6 +310,12 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
             name: "图片编辑",
             key: "editImage",
           },
+          {
+            id: 9,
+            configId: null,
+            name: "分镜审核（需识图模型）",
+            key: "storyboardReview",
+          },
         ]);
       },
     },
@@ -529,6 +555,16 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
               "# 文本模式说明\n\n## 输入特点\n纯文字描述的镜头内容，无参考图像\n\n## 核心原则\n**严格遵守用户指定的镜头时长**，避免过度推演\n\n## 分析要求\n\n### 1. 时长优先策略\n- **总时长锚定**：以用户给定时长为绝对约束\n- **动作精简**：只保留必要的核心动作\n- **节奏计算**：根据时长反推合理的动作速度\n- **裁剪思维**：优先截取最精华的片段，而非完整过程\n\n### 2. 场景构建（精简版）\n- **最小环境**：仅描述必要的空间信息\n- **核心主体**：聚焦主要视觉元素\n- **简化细节**：避免堆砌无关背景\n\n### 3. 动态规划（时长导向）\n```\n时长判断逻辑：\n├─ ≤ 1s   → 单一动作/状态，无复杂过渡\n├─ 1-3s   → 2-3个关键状态，快速衔接\n├─ 3-5s   → 完整动作序列，自然节奏\n└─ > 5s   → 可加入次要动作或环境变化\n```\n\n### 4. Visual 结构（紧凑版）\n```\nVisual:\n├─ 主体动作 (核心内容，必须项)\n├─ 环境氛围 (1-2句话概括)\n└─ 镜头语言 (景别+运动方式)\n```\n\n### 5. Keyframes 控制\n- **数量限制**：\n  - ≤2s: 最多3个关键帧\n  - 2-4s: 最多5个关键帧\n  - >4s: 最多7个关键帧\n- **时间精确**：严格按比例分配到总时长内\n\n### 6. 推演边界\n❌ **禁止推演**：\n- 完整的动作起始和结束（除非时长充足）\n- 复杂的环境变化\n- 多层次的情绪递进\n\n✅ **允许推演**：\n- 基础的物理惯性（如挥手后的手臂回落）\n- 必要的入镜/出镜状态\n- 符合时长的氛围细节\n\n---\n\n## 时长检查清单\n\n**输出前必须验证**：\n1. ✓ Keyframes 最后一帧时间 ≤ 总时长\n2. ✓ 动作节奏符合物理可能性（不过快/过慢）\n3. ✓ 推演内容可在时长内完成\n4. ✓ 若时长不足，优先保留核心动作，删减过渡\n\n---\n\n## 示例对比\n\n**输入文本**：一个人在雨中奔跑  \n**用户时长**：2秒\n\n### ❌ 错误示范（超时长）\n```\nKeyframes:\n- 0.0s: 远景出现\n- 0.5s: 加速\n- 1.0s: 跨过水坑\n- 1.5s: 冲向镜头\n- 2.0s: 甩动头发\n- 2.5s: 出画面  ← 超出时长！\n```\n\n### ✅ 正确示范\n```\nVisual:\n- 中景，雨夜街道，路灯昏黄 [推演]\n- 男性快速奔跑，冲向并掠过镜头\n- 固定机位，焦点跟随\n\nKeyframes:\n- 0.0s: 人物在中景位置起步\n- 0.8s: 加速至近景\n- 1.5s: 掠过镜头\n- 2.0s: [推演] 出画面右侧\n\nTransition:\n- In: [推演] 已在奔跑状态\n- Out: [推演] 冲出画面\n```\n\n---\n\n**直接输出分镜内容**",
             customValue: null,
           },
+          {
+            id: 23,
+            code: "storyboard-review",
+            name: "分镜Agent-分镜审核",
+            type: "subAgent",
+            parentCode: "storyboard-main",
+            defaultValue:
+              "# 分镜审核师\n\n你是资深的影视分镜审核师，负责对照剧本、片段和资产列表检查已生成的分镜镜头图，找出需要修改的镜头。\n\n## 输入\n- 项目画风、剧本内容、片段列表、资产列表（角色、道具、场景及描述）\n- 每个分镜的镜头说明（提示词、景别、角色、台词等），有图片的镜头在说明后附上对应图片\n\n## 检查项\n1. **missingCharacter 角色缺失**：提示词或剧本要求出场的角色没有出现在画面中，或出现了不该出现的角色，或角色外貌与资产描述不符\n2. **wrongProp 道具错误**：关键道具缺失、外观与资产描述不符，或出现剧本中没有的显眼道具\n3. **continuity 连贯性**：相邻镜头之间服装、发型、伤痕、道具位置、光线与时间、人物站位和朝向不一致\n4. **offStyle 画风不符**：画面风格与项目画风不符，或与同分镜其他镜头差异明显\n5. **other 其他**：画面与提示词严重不符、构图错误、文字乱码、肢体畸形等\n\n## 输出要求\n- 只报告确实存在的问题，没有问题的镜头不要输出\n- 每个问题必须给出 shotId 和 cellIndex（镜头序号，从1开始）\n- severity：high 必须修改，medium 建议修改，low 可接受\n- suggestion：\n  - updatePrompt：提示词本身有误或缺少关键信息，在 prompt 中给出完整的新提示词（中文）\n  - regenerate：提示词正确但画面没有画对，直接重绘，prompt 为 null\n  - none：仅提示，无需修改，prompt 为 null\n- 资产名称必须与资产列表完全一致\n- summary 用2-4句话总结整体质量和主要问题",
+            customValue: null,
+          },
         ]);
       },
     },
@@ -551,9 +587,140 @@ export default async (knex: Knex, forceInit: boolean = false): Promise<void> =>
           { id: 6, configId: 2, name: "视频提示词生成", key: "videoPrompt" },
           { id: 7, configId: 5, name: "分镜图片生成", key: "storyboardImage" },
           { id: 8, configId: 5, name: "图片编辑", key: "editImage" },
+          { id: 9, configId: null, name: "分镜审核（需识图模型）", key: "storyboardReview" },
         ]);
       },
     },
+    {
+      name: "t_novelHistory",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("novelId"); // 关联的原文ID
+        table.integer("projectId");
+        table.integer("chapterIndex");
+        table.text("chapter");
+        table.text("chapterData"); // 修改前的正文
+        table.text("contentHash");
+        table.integer("createTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_chapterSummary",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("novelId"); // 关联的原文ID
+        table.integer("projectId");
+        table.integer("chapterIndex");
+        table.text("contentHash"); // 生成摘要时的正文哈希，与原文不一致即失效
+        table.text("summary");
+        table.integer("createTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_toolTrace",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("projectId");
+        table.text("type"); // outlineAgent/storyboardAgent
+        table.integer("threadId"); // 大纲Agent会话ID
+        table.integer("scriptId"); // 分镜Agent所属剧本ID
+        table.text("agent"); // main 或 Sub-Agent 名称
+        table.text("toolCallId");
+        table.text("toolName");
+        table.text("args"); // 调用参数 JSON
+        table.text("result"); // 返回结果（过长时截断）
+        table.text("error");
+        table.integer("duration"); // 耗时（毫秒）
+        table.integer("startTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_taskItem",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("taskId");
+        table.integer("outlineId");
+        table.integer("scriptId");
+        table.integer("episode");
+        table.text("state"); // 等待中/生成中/生成成功/生成失败
+        table.text("error");
+        table.integer("startTime");
+        table.integer("endTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_outlineVersion",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("outlineId");
+        table.integer("projectId");
+        table.integer("episode");
+        table.text("data"); // 写入前的大纲内容，为空表示写入前大纲不存在
+        table.text("sourceHash");
+        table.integer("stale");
+        table.text("action"); // create/update/delete/restore
+        table.text("source"); // agent/manual
+        table.text("turnId"); // Agent 单次调用的标识
+        table.integer("createTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_scriptRevision",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("scriptId");
+        table.integer("projectId");
+        table.text("content"); // 保存后的剧本内容
+        table.text("source"); // generate/repair/manual/import/merge/restore
+        table.text("author"); // ai 或用户ID
+        table.integer("restoreFrom"); // 恢复操作对应的来源修订
+        table.integer("createTime");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_storyboardSegment",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("projectId");
+        table.integer("scriptId");
+        table.integer("segmentIndex"); // 片段序号
+        table.text("description");
+        table.text("emotion");
+        table.text("action");
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
+    {
+      name: "t_storyboardShot",
+      builder: (table) => {
+        table.integer("id").notNullable();
+        table.integer("projectId");
+        table.integer("scriptId");
+        table.integer("shotId"); // 分镜在剧本内的编号，即 Agent 中的分镜ID
+        table.integer("segmentId"); // 所属片段
+        table.text("title");
+        table.float("x");
+        table.float("y");
+        table.text("cells"); // 镜头 JSON [{id, prompt, src}]
+        table.text("fragmentContent");
+        table.text("assetsTags"); // 资产标签 JSON [{type, text}]
+        table.primary(["id"]);
+        table.unique(["id"]);
+      },
+    },
   ];
 
   for (const t of tables) {
@@ -0,0 +1,34 @@
+import { Knex } from "knex";
+
+// 原文全文索引：trigram 分词支持中文任意子串检索，通过触发器与 t_novel 保持同步
+export default async (knex: Knex): Promise<void> => {
+  if (!(await knex.schema.hasTable("t_novel"))) return;
+  if (await knex.schema.hasTable("t_novel_fts")) return;
+
+  try {
+    await knex.raw(
+      `CREATE VIRTUAL TABLE t_novel_fts USING fts5(chapter, chapterData, projectId UNINDEXED, chapterIndex UNINDEXED, content='t_novel', content_rowid='id', tokenize='trigram')`,
+    );
+    await knex.raw(`CREATE TRIGGER IF NOT EXISTS t_novel_fts_ai AFTER INSERT ON t_novel BEGIN
+      INSERT INTO t_novel_fts(rowid, chapter, chapterData, projectId, chapterIndex) VALUES (new.id, new.chapter, new.chapterData, new.projectId, new.chapterIndex);
+    END`);
+    await knex.raw(`CREATE TRIGGER IF NOT EXISTS t_novel_fts_ad AFTER DELETE ON t_novel BEGIN
+      INSERT INTO t_novel_fts(t_novel_fts, rowid, chapter, chapterData, projectId, chapterIndex) VALUES ('delete', old.id, old.chapter, old.chapterData, old.projectId, old.chapterIndex);
+    END`);
+    await knex.raw(`CREATE TRIGGER IF NOT EXISTS t_novel_fts_au AFTER UPDATE ON t_novel BEGIN
+      INSERT INTO t_novel_fts(t_novel_fts, rowid, chapter, chapterData, projectId, chapterIndex) VALUES ('delete', old.id, old.chapter, old.chapterData, old.projectId, old.chapterIndex);
+      INSERT INTO t_novel_fts(rowid, chapter, chapterData, projectId, chapterIndex) VALUES (new.id, new.chapter, new.chapterData, new.projectId, new.chapterIndex);
+    END`);
+    // 为已有原文建立索引
+    await knex.raw(`INSERT INTO t_novel_fts(t_novel_fts) VALUES ('rebuild')`);
+    console.log("[初始化数据库] 创建全文索引: t_novel_fts");
+  } catch (err) {
+    // 当前 SQLite 不支持 FTS5/trigram 时退化为 LIKE 检索
+    console.error("[初始化数据库] 全文索引创建失败，将使用普通检索:", err);
+    // 残留的触发器会让 t_novel 的增删改因找不到索引表而失败，需一并清理
+    for (const trigger of ["t_novel_fts_ai", "t_novel_fts_ad", "t_novel_fts_au"]) {
+      await knex.raw(`DROP TRIGGER IF EXISTS ${trigger}`).catch(() => {});
+    }
+    await knex.raw("DROP TABLE IF EXISTS t_novel_fts").catch(() => {});
+  }
+};
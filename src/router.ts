@@ -1,4 +1,4 @@
-// @routes-hash 3cfad40b3c8658b442ab766a9323d740
+// @routes-hash bd25f88e21b9b7f77c1671c5ebd68c7e
 import { Express } from "express";
 
 import route1 from "./routes/assets/addAssets";
@@ -12,72 +12,107 @@ import route8 from "./routes/assets/saveAssets";
 import route9 from "./routes/assets/updateAssets";
 import route10 from "./routes/index/index";
 import route11 from "./routes/novel/addNovel";
-import route12 from "./routes/novel/delNovel";
-import route13 from "./routes/novel/getNovel";
-import route14 from "./routes/novel/updateNovel";
-import route15 from "./routes/other/clearDatabase";
-import route16 from "./routes/other/deleteAllData";
-import route17 from "./routes/other/getCaptcha";
-import route18 from "./routes/other/login";
-import route19 from "./routes/other/testAI";
-import route20 from "./routes/other/testImage";
-import route21 from "./routes/other/testVideo";
-import route22 from "./routes/outline/addOutline";
-import route23 from "./routes/outline/agentsOutline";
-import route24 from "./routes/outline/delOutline";
-import route25 from "./routes/outline/getHistory";
-import route26 from "./routes/outline/getOutline";
-import route27 from "./routes/outline/getPartScript";
-import route28 from "./routes/outline/getStoryline";
-import route29 from "./routes/outline/setHistory";
-import route30 from "./routes/outline/updateOutline";
-import route31 from "./routes/outline/updateScript";
-import route32 from "./routes/outline/updateStoryline";
-import route33 from "./routes/project/addProject";
-import route34 from "./routes/project/delProject";
-import route35 from "./routes/project/getProject";
-import route36 from "./routes/project/getProjectCount";
-import route37 from "./routes/project/getSingleProject";
-import route38 from "./routes/project/updateProject";
-import route39 from "./routes/prompt/getPrompts";
-import route40 from "./routes/prompt/updatePrompt";
-import route41 from "./routes/script/generateScriptApi";
-import route42 from "./routes/script/generateScriptSave";
-import route43 from "./routes/script/geScriptApi";
-import route44 from "./routes/setting/addModel";
-import route45 from "./routes/setting/configurationModel";
-import route46 from "./routes/setting/delModel";
-import route47 from "./routes/setting/getAiModelMap";
-import route48 from "./routes/setting/getLog";
-import route49 from "./routes/setting/getSetting";
-import route50 from "./routes/setting/getVideoModelList";
-import route51 from "./routes/setting/updateModel";
-import route52 from "./routes/setting/updeteModel";
-import route53 from "./routes/storyboard/batchSuperScoreImage";
-import route54 from "./routes/storyboard/chatStoryboard";
-import route55 from "./routes/storyboard/generateShotImage";
-import route56 from "./routes/storyboard/generateStoryboardApi";
-import route57 from "./routes/storyboard/generateVideoPrompt";
-import route58 from "./routes/storyboard/getStoryboard";
-import route59 from "./routes/storyboard/keepStoryboard";
-import route60 from "./routes/storyboard/saveStoryboard";
-import route61 from "./routes/storyboard/uploadImage";
-import route62 from "./routes/task/getTaskApi";
-import route63 from "./routes/task/taskDetails";
-import route64 from "./routes/user/getUser";
-import route65 from "./routes/video/addVideo";
-import route66 from "./routes/video/addVideoConfig";
-import route67 from "./routes/video/deleteVideoConfig";
-import route68 from "./routes/video/generatePrompt";
-import route69 from "./routes/video/generateVideo";
-import route70 from "./routes/video/getManufacturer";
-import route71 from "./routes/video/getVideo";
-import route72 from "./routes/video/getVideoConfigs";
-import route73 from "./routes/video/getVideoModel";
-import route74 from "./routes/video/getVideoStoryboards";
-import route75 from "./routes/video/reviseVideoStoryboards";
-import route76 from "./routes/video/saveVideo";
-import route77 from "./routes/video/upDateVideoConfig";
+import route12 from "./routes/novel/clearStale";
+import route13 from "./routes/novel/delNovel";
+import route14 from "./routes/novel/getNovel";
+import route15 from "./routes/novel/getStaleItems";
+import route16 from "./routes/novel/importNovelFile";
+import route17 from "./routes/novel/normalizeNovel";
+import route18 from "./routes/novel/previewNovelFile";
+import route19 from "./routes/novel/searchNovel";
+import route20 from "./routes/novel/updateNovel";
+import route21 from "./routes/other/clearDatabase";
+import route22 from "./routes/other/deleteAllData";
+import route23 from "./routes/other/getCaptcha";
+import route24 from "./routes/other/login";
+import route25 from "./routes/other/testAI";
+import route26 from "./routes/other/testImage";
+import route27 from "./routes/other/testVideo";
+import route28 from "./routes/outline/addChatThread";
+import route29 from "./routes/outline/addOutline";
+import route30 from "./routes/outline/agentsOutline";
+import route31 from "./routes/outline/delChatThread";
+import route32 from "./routes/outline/delOutline";
+import route33 from "./routes/outline/delStoryline";
+import route34 from "./routes/outline/diffOutlineVersion";
+import route35 from "./routes/outline/getChatThread";
+import route36 from "./routes/outline/getHistory";
+import route37 from "./routes/outline/getOutline";
+import route38 from "./routes/outline/getOutlineCoverage";
+import route39 from "./routes/outline/getOutlineVersion";
+import route40 from "./routes/outline/getPartScript";
+import route41 from "./routes/outline/getStoryline";
+import route42 from "./routes/outline/mergeOutline";
+import route43 from "./routes/outline/moveOutline";
+import route44 from "./routes/outline/restoreOutlineTurn";
+import route45 from "./routes/outline/restoreOutlineVersion";
+import route46 from "./routes/outline/setHistory";
+import route47 from "./routes/outline/splitOutline";
+import route48 from "./routes/outline/updateChatThread";
+import route49 from "./routes/outline/updateOutline";
+import route50 from "./routes/outline/updateScript";
+import route51 from "./routes/outline/updateStoryline";
+import route52 from "./routes/project/addProject";
+import route53 from "./routes/project/delProject";
+import route54 from "./routes/project/getProject";
+import route55 from "./routes/project/getProjectCount";
+import route56 from "./routes/project/getSingleProject";
+import route57 from "./routes/project/getToolTrace";
+import route58 from "./routes/project/updateProject";
+import route59 from "./routes/prompt/getPrompts";
+import route60 from "./routes/prompt/updatePrompt";
+import route61 from "./routes/script/batchGenerateScript";
+import route62 from "./routes/script/cancelBatchScript";
+import route63 from "./routes/script/diffScriptRevision";
+import route64 from "./routes/script/exportProjectScript";
+import route65 from "./routes/script/exportScript";
+import route66 from "./routes/script/generateScriptApi";
+import route67 from "./routes/script/generateScriptSave";
+import route68 from "./routes/script/generateScriptStream";
+import route69 from "./routes/script/geScriptApi";
+import route70 from "./routes/script/getScriptRevision";
+import route71 from "./routes/script/getScriptStructure";
+import route72 from "./routes/script/importFountain";
+import route73 from "./routes/script/lintScript";
+import route74 from "./routes/script/restoreScriptRevision";
+import route75 from "./routes/script/resumeBatchScript";
+import route76 from "./routes/script/updateScriptStructure";
+import route77 from "./routes/setting/addModel";
+import route78 from "./routes/setting/configurationModel";
+import route79 from "./routes/setting/delModel";
+import route80 from "./routes/setting/getAiModelMap";
+import route81 from "./routes/setting/getLog";
+import route82 from "./routes/setting/getSetting";
+import route83 from "./routes/setting/getVideoModelList";
+import route84 from "./routes/setting/updateModel";
+import route85 from "./routes/setting/updeteModel";
+import route86 from "./routes/storyboard/batchSuperScoreImage";
+import route87 from "./routes/storyboard/chatStoryboard";
+import route88 from "./routes/storyboard/exportShotList";
+import route89 from "./routes/storyboard/generateShotImage";
+import route90 from "./routes/storyboard/generateStoryboardApi";
+import route91 from "./routes/storyboard/generateVideoPrompt";
+import route92 from "./routes/storyboard/getStoryboard";
+import route93 from "./routes/storyboard/keepStoryboard";
+import route94 from "./routes/storyboard/saveStoryboard";
+import route95 from "./routes/storyboard/updateShotCell";
+import route96 from "./routes/storyboard/uploadImage";
+import route97 from "./routes/task/getTaskApi";
+import route98 from "./routes/task/taskDetails";
+import route99 from "./routes/user/getUser";
+import route100 from "./routes/video/addVideo";
+import route101 from "./routes/video/addVideoConfig";
+import route102 from "./routes/video/deleteVideoConfig";
+import route103 from "./routes/video/generatePrompt";
+import route104 from "./routes/video/generateVideo";
+import route105 from "./routes/video/getManufacturer";
+import route106 from "./routes/video/getVideo";
+import route107 from "./routes/video/getVideoConfigs";
+import route108 from "./routes/video/getVideoModel";
+import route109 from "./routes/video/getVideoStoryboards";
+import route110 from "./routes/video/reviseVideoStoryboards";
+import route111 from "./routes/video/saveVideo";
+import route112 from "./routes/video/upDateVideoConfig";
 
 export default async (app: Express) => {
   app.use("/assets/addAssets", route1);
@@ -91,70 +126,105 @@ export default async (app: Express) => {
   app.use("/assets/updateAssets", route9);
   app.use("/index", route10);
   app.use("/novel/addNovel", route11);
-  app.use("/novel/delNovel", route12);
-  app.use("/novel/getNovel", route13);
-  app.use("/novel/updateNovel", route14);
-  app.use("/other/clearDatabase", route15);
-  app.use("/other/deleteAllData", route16);
-  app.use("/other/getCaptcha", route17);
-  app.use("/other/login", route18);
-  app.use("/other/testAI", route19);
-  app.use("/other/testImage", route20);
-  app.use("/other/testVideo", route21);
-  app.use("/outline/addOutline", route22);
-  app.use("/outline/agentsOutline", route23);
-  app.use("/outline/delOutline", route24);
-  app.use("/outline/getHistory", route25);
-  app.use("/outline/getOutline", route26);
-  app.use("/outline/getPartScript", route27);
-  app.use("/outline/getStoryline", route28);
-  app.use("/outline/setHistory", route29);
-  app.use("/outline/updateOutline", route30);
-  app.use("/outline/updateScript", route31);
-  app.use("/outline/updateStoryline", route32);
-  app.use("/project/addProject", route33);
-  app.use("/project/delProject", route34);
-  app.use("/project/getProject", route35);
-  app.use("/project/getProjectCount", route36);
-  app.use("/project/getSingleProject", route37);
-  app.use("/project/updateProject", route38);
-  app.use("/prompt/getPrompts", route39);
-  app.use("/prompt/updatePrompt", route40);
-  app.use("/script/generateScriptApi", route41);
-  app.use("/script/generateScriptSave", route42);
-  app.use("/script/geScriptApi", route43);
-  app.use("/setting/addModel", route44);
-  app.use("/setting/configurationModel", route45);
-  app.use("/setting/delModel", route46);
-  app.use("/setting/getAiModelMap", route47);
-  app.use("/setting/getLog", route48);
-  app.use("/setting/getSetting", route49);
-  app.use("/setting/getVideoModelList", route50);
-  app.use("/setting/updateModel", route51);
-  app.use("/setting/updeteModel", route52);
-  app.use("/storyboard/batchSuperScoreImage", route53);
-  app.use("/storyboard/chatStoryboard", route54);
-  app.use("/storyboard/generateShotImage", route55);
-  app.use("/storyboard/generateStoryboardApi", route56);
-  app.use("/storyboard/generateVideoPrompt", route57);
-  app.use("/storyboard/getStoryboard", route58);
-  app.use("/storyboard/keepStoryboard", route59);
-  app.use("/storyboard/saveStoryboard", route60);
-  app.use("/storyboard/uploadImage", route61);
-  app.use("/task/getTaskApi", route62);
-  app.use("/task/taskDetails", route63);
-  app.use("/user/getUser", route64);
-  app.use("/video/addVideo", route65);
-  app.use("/video/addVideoConfig", route66);
-  app.use("/video/deleteVideoConfig", route67);
-  app.use("/video/generatePrompt", route68);
-  app.use("/video/generateVideo", route69);
-  app.use("/video/getManufacturer", route70);
-  app.use("/video/getVideo", route71);
-  app.use("/video/getVideoConfigs", route72);
-  app.use("/video/getVideoModel", route73);
-  app.use("/video/getVideoStoryboards", route74);
-  app.use("/video/reviseVideoStoryboards", route75);
-  app.use("/video/saveVideo", route76);
-  app.use("/video/upDateVideoConfig", route77);
+  app.use("/novel/clearStale", route12);
+  app.use("/novel/delNovel", route13);
+  app.use("/novel/getNovel", route14);
+  app.use("/novel/getStaleItems", route15);
+  app.use("/novel/importNovelFile", route16);
+  app.use("/novel/normalizeNovel", route17);
+  app.use("/novel/previewNovelFile", route18);
+  app.use("/novel/searchNovel", route19);
+  app.use("/novel/updateNovel", route20);
+  app.use("/other/clearDatabase", route21);
+  app.use("/other/deleteAllData", route22);
+  app.use("/other/getCaptcha", route23);
+  app.use("/other/login", route24);
+  app.use("/other/testAI", route25);
+  app.use("/other/testImage", route26);
+  app.use("/other/testVideo", route27);
+  app.use("/outline/addChatThread", route28);
+  app.use("/outline/addOutline", route29);
+  app.use("/outline/agentsOutline", route30);
+  app.use("/outline/delChatThread", route31);
+  app.use("/outline/delOutline", route32);
+  app.use("/outline/delStoryline", route33);
+  app.use("/outline/diffOutlineVersion", route34);
+  app.use("/outline/getChatThread", route35);
+  app.use("/outline/getHistory", route36);
+  app.use("/outline/getOutline", route37);
+  app.use("/outline/getOutlineCoverage", route38);
+  app.use("/outline/getOutlineVersion", route39);
+  app.use("/outline/getPartScript", route40);
+  app.use("/outline/getStoryline", route41);
+  app.use("/outline/mergeOutline", route42);
+  app.use("/outline/moveOutline", route43);
+  app.use("/outline/restoreOutlineTurn", route44);
+  app.use("/outline/restoreOutlineVersion", route45);
+  app.use("/outline/setHistory", route46);
+  app.use("/outline/splitOutline", route47);
+  app.use("/outline/updateChatThread", route48);
+  app.use("/outline/updateOutline", route49);
+  app.use("/outline/updateScript", route50);
+  app.use("/outline/updateStoryline", route51);
+  app.use("/project/addProject", route52);
+  app.use("/project/delProject", route53);
+  app.use("/project/getProject", route54);
+  app.use("/project/getProjectCount", route55);
+  app.use("/project/getSingleProject", route56);
+  app.use("/project/getToolTrace", route57);
+  app.use("/project/updateProject", route58);
+  app.use("/prompt/getPrompts", route59);
+  app.use("/prompt/updatePrompt", route60);
+  app.use("/script/batchGenerateScript", route61);
+  app.use("/script/cancelBatchScript", route62);
+  app.use("/script/diffScriptRevision", route63);
+  app.use("/script/exportProjectScript", route64);
+  app.use("/script/exportScript", route65);
+  app.use("/script/generateScriptApi", route66);
+  app.use("/script/generateScriptSave", route67);
+  app.use("/script/generateScriptStream", route68);
+  app.use("/script/geScriptApi", route69);
+  app.use("/script/getScriptRevision", route70);
+  app.use("/script/getScriptStructure", route71);
+  app.use("/script/importFountain", route72);
+  app.use("/script/lintScript", route73);
+  app.use("/script/restoreScriptRevision", route74);
+  app.use("/script/resumeBatchScript", route75);
+  app.use("/script/updateScriptStructure", route76);
+  app.use("/setting/addModel", route77);
+  app.use("/setting/configurationModel", route78);
+  app.use("/setting/delModel", route79);
+  app.use("/setting/getAiModelMap", route80);
+  app.use("/setting/getLog", route81);
+  app.use("/setting/getSetting", route82);
+  app.use("/setting/getVideoModelList", route83);
+  app.use("/setting/updateModel", route84);
+  app.use("/setting/updeteModel", route85);
+  app.use("/storyboard/batchSuperScoreImage", route86);
+  app.use("/storyboard/chatStoryboard", route87);
+  app.use("/storyboard/exportShotList", route88);
+  app.use("/storyboard/generateShotImage", route89);
+  app.use("/storyboard/generateStoryboardApi", route90);
+  app.use("/storyboard/generateVideoPrompt", route91);
+  app.use("/storyboard/getStoryboard", route92);
+  app.use("/storyboard/keepStoryboard", route93);
+  app.use("/storyboard/saveStoryboard", route94);
+  app.use("/storyboard/updateShotCell", route95);
+  app.use("/storyboard/uploadImage", route96);
+  app.use("/task/getTaskApi", route97);
+  app.use("/task/taskDetails", route98);
+  app.use("/user/getUser", route99);
+  app.use("/video/addVideo", route100);
+  app.use("/video/addVideoConfig", route101);
+  app.use("/video/deleteVideoConfig", route102);
+  app.use("/video/generatePrompt", route103);
+  app.use("/video/generateVideo", route104);
+  app.use("/video/getManufacturer", route105);
+  app.use("/video/getVideo", route106);
+  app.use("/video/getVideoConfigs", route107);
+  app.use("/video/getVideoModel", route108);
+  app.use("/video/getVideoStoryboards", route109);
+  app.use("/video/reviseVideoStoryboards", route110);
+  app.use("/video/saveVideo", route111);
+  app.use("/video/upDateVideoConfig", route112);
 }
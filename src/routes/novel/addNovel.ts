@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import normalizeText, { NormalizeReport, normalizeOptionsSchema } from "@/utils/novel/normalizeText";
 const router = express.Router();
 
 // 新增原文数据
@@ -18,21 +19,29 @@ export default router.post(
         chapterData: z.string(),
       })
     ),
+    normalize: normalizeOptionsSchema.optional(),
   }),
   async (req, res) => {
-    const { projectId, data } = req.body;
+    const { projectId, data, normalize } = req.body;
 
+    const reports: Array<{ index: number; report: NormalizeReport }> = [];
     for (const item of data) {
+      let chapterData = item.chapterData;
+      if (normalize) {
+        const result = normalizeText(chapterData, normalize);
+        chapterData = result.text;
+        reports.push({ index: item.index, report: result.report });
+      }
       await u.db("t_novel").insert({
         projectId,
         chapterIndex: item.index,
         reel: item.reel,
         chapter: item.chapter,
-        chapterData: item.chapterData,
+        chapterData,
         createTime: Date.now(),
       });
     }
 
-    res.status(200).send(success({ message: "新增原文成功" }));
+    res.status(200).send(success({ message: "新增原文成功", ...(normalize && { reports }) }));
   }
 );
@@ -0,0 +1,26 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { recordOutlineSource, recordScriptSource } from "@/utils/sourceHash";
+const router = express.Router();
+
+// 忽略过期标记（确认无需重新生成），以当前原文作为新的依据版本
+export default router.post(
+  "/",
+  validateFields({
+    type: z.enum(["outline", "script", "storyboard"]),
+    ids: z.array(z.number()).min(1),
+  }),
+  async (req, res) => {
+    const { type, ids } = req.body;
+
+    if (type === "outline") await recordOutlineSource(ids);
+    if (type === "script") for (const id of ids) await recordScriptSource(id);
+    // 分镜按剧本ID批量清除
+    if (type === "storyboard") await u.db("t_assets").whereIn("scriptId", ids).where("type", "分镜").update({ stale: 0 });
+
+    res.status(200).send(success({ message: "已清除过期标记" }));
+  },
+);
@@ -15,6 +15,7 @@ export default router.post(
     const { id } = req.body;
 
     await u.db("t_novel").where("id", id).del();
+    await u.db("t_chapterSummary").where("novelId", id).del();
 
     res.status(200).send(success({ message: "删除原文成功" }));
   }
@@ -0,0 +1,93 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { getChapterHashes } from "@/utils/sourceHash";
+import { compactDiff, diffLines, diffStats } from "@/utils/textDiff";
+const router = express.Router();
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// 获取因原文修改而过期的大纲、剧本、分镜，以及对应章节的改动
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+  }),
+  async (req, res) => {
+    const { projectId } = req.body;
+
+    const outlines = await u.db("t_outline").where("projectId", projectId).select("id", "episode", "data", "sourceHash", "stale").orderBy("episode", "asc");
+    const scripts = await u.db("t_script").where("projectId", projectId).select("id", "name", "outlineId", "sourceHash", "stale");
+    const storyboards = await u
+      .db("t_assets")
+      .where("projectId", projectId)
+      .where("type", "分镜")
+      .where("stale", 1)
+      .select("scriptId")
+      .count("* as total")
+      .groupBy("scriptId");
+    const storyboardCount = new Map(storyboards.map((s: any) => [s.scriptId as number, Number(s.total)]));
+
+    const novels = await u.db("t_novel").where("projectId", projectId).select("id", "chapterIndex", "chapter", "chapterData");
+    const novelMap = new Map(novels.map((n) => [n.chapterIndex!, n]));
+    const current = await getChapterHashes(
+      projectId,
+      novels.map((n) => n.chapterIndex!),
+    );
+
+    const diffCache = new Map<string, ReturnType<typeof compactDiff> | null>();
+    const getChanges = async (sourceHash: Record<number, string>) => {
+      const changes = [];
+      for (const [key, hash] of Object.entries(sourceHash)) {
+        const chapterIndex = Number(key);
+        const novel = novelMap.get(chapterIndex);
+        if (!novel || current[chapterIndex] === hash) continue;
+
+        const cacheKey = `${novel.id}:${hash}`;
+        if (!diffCache.has(cacheKey)) {
+          const history = await u.db("t_novelHistory").where({ novelId: novel.id, contentHash: hash }).select("chapterData").first();
+          diffCache.set(cacheKey, history ? compactDiff(diffLines(history.chapterData ?? "", novel.chapterData ?? "")) : null);
+        }
+        const diff = diffCache.get(cacheKey)!;
+        changes.push({
+          novelId: novel.id,
+          chapterIndex,
+          chapter: novel.chapter,
+          stats: diff ? diffStats(diff) : null,
+          diff, // 找不到修改前版本时为 null
+        });
+      }
+      return changes.sort((a, b) => a.chapterIndex - b.chapterIndex);
+    };
+
+    const data = [];
+    for (const outline of outlines) {
+      const outlineScripts = scripts
+        .filter((s) => s.outlineId === outline.id)
+        .map((s) => ({ ...s, storyboardCount: storyboardCount.get(s.id!) ?? 0 }))
+        .filter((s) => s.stale || s.storyboardCount);
+      if (!outline.stale && !outlineScripts.length) continue;
+
+      // 大纲未过期时，以剧本生成时的章节版本计算改动
+      const sourceHash = outline.stale ? parseJson(outline.sourceHash, {}) : parseJson(outlineScripts.find((s) => s.stale)?.sourceHash, {});
+      data.push({
+        outlineId: outline.id,
+        episode: outline.episode,
+        title: parseJson<{ title?: string }>(outline.data, {}).title ?? "",
+        stale: !!outline.stale,
+        scripts: outlineScripts.map((s) => ({ id: s.id, name: s.name, stale: !!s.stale, staleStoryboards: s.storyboardCount })),
+        changes: await getChanges(sourceHash),
+      });
+    }
+
+    res.status(200).send(success(data));
+  },
+);
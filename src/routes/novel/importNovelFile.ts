@@ -0,0 +1,55 @@
+import express from "express";
+import { z } from "zod";
+import { error, success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { db } from "@/utils/db";
+import { parseNovelFile } from "@/utils/novel";
+import { normalizeOptionsSchema } from "@/utils/novel/normalizeText";
+const router = express.Router();
+
+// 导入小说文件（txt/epub/docx），自动分卷分章后写入原文
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    fileName: z.string(),
+    base64Data: z.string(),
+    keepAuthorNotes: z.boolean().optional(),
+    normalize: z.union([normalizeOptionsSchema, z.literal(false)]).optional(),
+    overwrite: z.boolean().optional(),
+  }),
+  async (req, res) => {
+    const { projectId, fileName, base64Data, keepAuthorNotes, normalize, overwrite = false } = req.body;
+
+    let result;
+    try {
+      result = await parseNovelFile(fileName, base64Data, { keepAuthorNotes, normalize });
+    } catch (err: any) {
+      return res.status(400).send(error(err?.message || "小说文件解析失败"));
+    }
+    if (!result.chapters.length) return res.status(400).send(error("未解析到任何章节"));
+
+    await db.transaction(async (trx) => {
+      let startIndex = 0;
+      if (overwrite) {
+        await trx("t_novel").where("projectId", projectId).del();
+      } else {
+        const max = await trx("t_novel").where("projectId", projectId).max("chapterIndex as max").first<{ max: number | null }>();
+        startIndex = max?.max ?? 0;
+      }
+
+      const createTime = Date.now();
+      const rows = result.chapters.map((c) => ({
+        projectId,
+        chapterIndex: startIndex + c.index,
+        reel: c.reel,
+        chapter: c.chapter,
+        chapterData: c.chapterData,
+        createTime,
+      }));
+      await trx.batchInsert("t_novel", rows, 100);
+    });
+
+    res.status(200).send(success({ message: "导入原文成功", count: result.chapters.length, encoding: result.encoding, warnings: result.warnings }));
+  },
+);
@@ -0,0 +1,35 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import normalizeText, { NormalizeReport, normalizeOptionsSchema } from "@/utils/novel/normalizeText";
+const router = express.Router();
+
+// 规范化已导入的原文（dryRun 时只返回变更报告，不写库）
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    ids: z.array(z.number()).optional(),
+    options: normalizeOptionsSchema.optional(),
+    dryRun: z.boolean().optional(),
+  }),
+  async (req, res) => {
+    const { projectId, ids, options = {}, dryRun = false } = req.body;
+
+    const query = u.db("t_novel").where("projectId", projectId).select("id", "chapterIndex", "chapter", "chapterData").orderBy("chapterIndex", "asc");
+    if (ids?.length) query.whereIn("id", ids);
+    const chapters = await query;
+
+    const reports: Array<{ id: number; index: number; chapter: string; changed: boolean; report: NormalizeReport }> = [];
+    for (const item of chapters) {
+      const { text, report } = normalizeText(item.chapterData ?? "", options);
+      const changed = text !== item.chapterData;
+      if (changed && !dryRun) await u.db("t_novel").where("id", item.id).update({ chapterData: text });
+      reports.push({ id: item.id!, index: item.chapterIndex!, chapter: item.chapter ?? "", changed, report });
+    }
+
+    res.status(200).send(success({ changed: reports.filter((r) => r.changed).length, reports }));
+  },
+);
@@ -0,0 +1,48 @@
+import express from "express";
+import { z } from "zod";
+import { error, success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { parseNovelFile } from "@/utils/novel";
+import { normalizeOptionsSchema } from "@/utils/novel/normalizeText";
+const router = express.Router();
+
+// 预览小说文件的分卷分章结果
+export default router.post(
+  "/",
+  validateFields({
+    fileName: z.string(),
+    base64Data: z.string(),
+    keepAuthorNotes: z.boolean().optional(),
+    normalize: z.union([normalizeOptionsSchema, z.literal(false)]).optional(),
+  }),
+  async (req, res) => {
+    const { fileName, base64Data, keepAuthorNotes, normalize } = req.body;
+
+    let result;
+    try {
+      result = await parseNovelFile(fileName, base64Data, { keepAuthorNotes, normalize });
+    } catch (err: any) {
+      return res.status(400).send(error(err?.message || "小说文件解析失败"));
+    }
+
+    res.status(200).send(
+      success({
+        encoding: result.encoding,
+        frontMatter: result.frontMatter,
+        volumes: result.volumes,
+        headingPattern: result.headingPattern,
+        warnings: result.warnings,
+        totalChars: result.totalChars,
+        chapters: result.chapters.map((c) => ({
+          index: c.index,
+          reel: c.reel,
+          chapter: c.chapter,
+          length: c.chapterData.length,
+          preview: c.chapterData.slice(0, 100),
+          authorNotes: c.authorNotes,
+          report: c.report,
+        })),
+      }),
+    );
+  },
+);
@@ -0,0 +1,24 @@
+import express from "express";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import searchNovel from "@/utils/searchNovel";
+const router = express.Router();
+
+// 全文检索原文
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    keyword: z.string().min(1),
+    page: z.number().optional(),
+    limit: z.number().optional(),
+  }),
+  async (req, res) => {
+    const { projectId, keyword, page = 1, limit = 20 } = req.body;
+
+    const data = await searchNovel(projectId, keyword, { limit, offset: (page - 1) * limit });
+
+    res.status(200).send(success(data));
+  },
+);
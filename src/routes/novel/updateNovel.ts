@@ -1,8 +1,9 @@
 import express from "express";
 import u from "@/utils";
 import { z } from "zod";
-import { success } from "@/lib/responseFormat";
+import { success, error } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { markChapterChanged } from "@/utils/sourceHash";
 const router = express.Router();
 
 // 更新原文数据
@@ -18,6 +19,9 @@ export default router.post(
   async (req, res) => {
     const { id, index, reel, chapter, chapterData } = req.body;
 
+    const before = await u.db("t_novel").where("id", id).first();
+    if (!before) return res.status(400).send(error("原文不存在"));
+
     await u.db("t_novel").where("id", id).update({
       chapterIndex: index,
       reel,
@@ -25,6 +29,9 @@ export default router.post(
       chapterData,
     });
 
-    res.status(200).send(success({ message: "更新原文成功" }));
+    // 正文或章节序号变化时标记依赖新旧章节的大纲、剧本、分镜为过期
+    const stale = await markChapterChanged(before);
+
+    res.status(200).send(success({ message: "更新原文成功", stale }));
   },
 );
@@ -0,0 +1,31 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 新建大纲Agent会话
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    name: z.string().min(1),
+  }),
+  async (req, res) => {
+    const { projectId, name } = req.body;
+
+    const now = Date.now();
+    const [id] = await u.db("t_chatHistory").insert({
+      projectId,
+      type: "outlineAgent",
+      name,
+      data: "[]",
+      novel: "",
+      createTime: now,
+      updateTime: now,
+    });
+
+    res.status(200).send(success({ id, name }));
+  },
+);
@@ -3,6 +3,8 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { recordOutlineSource } from "@/utils/sourceHash";
+import { recordCreatedOutlines } from "@/utils/outlineVersion";
 const router = express.Router();
 
 // 新增大纲
@@ -15,10 +17,12 @@ export default router.post(
   async (req, res) => {
     const { projectId, data } = req.body;
 
-    await u.db("t_outline").insert({
+    const [id] = await u.db("t_outline").insert({
       data,
       projectId,
     });
+    await recordOutlineSource([id]);
+    await recordCreatedOutlines([id], { source: "manual" });
 
     res.status(200).send(success({ message: "新增大纲成功" }));
   }
@@ -2,6 +2,7 @@ import express from "express";
 import expressWs, { Application } from "express-ws";
 import u from "@/utils";
 import OutlineScript from "@/agents/outlineScript";
+import { saveToolTrace, toClientTrace } from "@/utils/toolTrace";
 const router = express.Router();
 expressWs(router as unknown as Application);
 
@@ -18,20 +19,43 @@ router.ws("/", async (ws, req) => {
 
   agent = new OutlineScript(Number(projectId));
 
-  // const existing = await u
-  //   .db("t_chatHistory")
-  //   .where({ projectId: Number(projectId) })
-  //   .first();
-  // if (existing) {
-  //   try {
-  // const historyData = JSON.parse(existing.data!);
-  // agent.history = [];
-  // agent.novelChapters = existing.novel ? JSON.parse(existing.novel) : [];
-  //   } catch (error) {
-  //     ws.send(JSON.stringify({ type: "error", data: "历史记录解析异常,将清空历史记录" }));
-  //     agent.history = [];
-  //   }
-  // }
+  // 危险工具的确认模式按项目配置，默认需要确认
+  const project = await u.db("t_project").where("id", Number(projectId)).select("toolPermission").first();
+  agent.approval.mode = project?.toolPermission === "auto" ? "auto" : "confirm";
+
+  // 加载会话：指定 threadId 时恢复该会话，否则恢复最近使用的会话，没有则新建
+  const threadQuery = u.db("t_chatHistory").where({ projectId: Number(projectId), type: "outlineAgent" });
+  const existing = req.query.threadId
+    ? await threadQuery.where("id", Number(req.query.threadId)).first()
+    : await threadQuery.orderBy("updateTime", "desc").first();
+  if (req.query.threadId && !existing) {
+    ws.send(JSON.stringify({ type: "error", data: "会话不存在" }));
+    ws.close(1008, "会话不存在");
+    return;
+  }
+
+  let threadId: number;
+  if (existing) {
+    threadId = existing.id!;
+    try {
+      agent.history = JSON.parse(existing.data || "[]");
+      agent.memory = existing.summary || "";
+    } catch (error) {
+      ws.send(JSON.stringify({ type: "error", data: "历史记录解析异常,将清空历史记录" }));
+      agent.history = [];
+    }
+  } else {
+    const now = Date.now();
+    [threadId] = await u.db("t_chatHistory").insert({
+      projectId: Number(projectId),
+      type: "outlineAgent",
+      name: "默认会话",
+      data: "[]",
+      novel: "",
+      createTime: now,
+      updateTime: now,
+    });
+  }
   // 监听各类事件
   // 流式传输：每个token
   agent.emitter.on("data", (text) => {
@@ -59,10 +83,37 @@ router.ws("/", async (ws, req) => {
     ws.send(JSON.stringify({ type: "toolCall", data }));
   });
 
+  // Tool 完成（含结果、耗时、错误），同时入库备查
+  agent.emitter.on("toolResult", async (data) => {
+    ws.send(JSON.stringify({ type: "toolResult", data: toClientTrace(data) }));
+    await saveToolTrace({ projectId: Number(projectId), type: "outlineAgent", threadId }, data).catch((err) => console.error("[工具调用记录] 保存失败:", err));
+  });
+
   agent.emitter.on("transfer", (data) => {
     ws.send(JSON.stringify({ type: "transfer", data }));
   });
 
+  // 危险操作等待用户确认
+  agent.emitter.on("approvalRequest", (data) => {
+    ws.send(JSON.stringify({ type: "approvalRequest", data }));
+  });
+
+  // 确认结果（approved/denied/timeout/aborted）
+  agent.emitter.on("approvalResult", (data) => {
+    ws.send(JSON.stringify({ type: "approvalResult", data }));
+  });
+
+  // 任务已中止，附带已执行完成的工具调用
+  agent.emitter.on("aborted", async (data) => {
+    ws.send(JSON.stringify({ type: "aborted", data }));
+    await saveHistory();
+  });
+
+  // 历史记录已压缩
+  agent.emitter.on("compacted", (data) => {
+    ws.send(JSON.stringify({ type: "compacted", data }));
+  });
+
   agent.emitter.on("refresh", (data) => {
     ws.send(JSON.stringify({ type: "refresh", data }));
   });
@@ -72,9 +123,9 @@ router.ws("/", async (ws, req) => {
   });
 
   // 发送初始化完成消息，通知前端可以开始发送消息
-  ws.send(JSON.stringify({ type: "init", data: { projectId } }));
+  ws.send(JSON.stringify({ type: "init", data: { projectId, threadId, name: existing?.name || "默认会话", history: agent.history, memory: agent.memory } }));
 
-  type DataTyype = "msg" | "setNovel" | "cleanHistory";
+  type DataTyype = "msg" | "setNovel" | "cleanHistory" | "abort" | "approval";
   ws.on("message", async function (rawData: string) {
     let data: { type: DataTyype; data: any } | null = null;
     try {
@@ -101,12 +152,16 @@ router.ws("/", async (ws, req) => {
           let prompt = msg.data;
           if (msg.type == "user") await agent.call(prompt);
           break;
+        case "approval":
+          if (!agent.approval.respond(msg.id, !!msg.approved)) ws.send(JSON.stringify({ type: "notice", data: "确认请求已失效" }));
+          break;
+        case "abort":
+          if (!agent.abort()) ws.send(JSON.stringify({ type: "notice", data: "当前没有进行中的任务" }));
+          break;
         case "cleanHistory":
           agent.history = [];
-          await u
-            .db("t_chatHistory")
-            .where({ projectId: Number(projectId) })
-            .del();
+          agent.memory = "";
+          await saveHistory();
           ws.send(JSON.stringify({ type: "notice", data: "历史记录已清空" }));
           break;
         default:
@@ -119,30 +174,22 @@ router.ws("/", async (ws, req) => {
   });
 
   ws.on("close", async () => {
+    // 连接断开后不再继续执行进行中的任务
+    const aborting = agent?.abort();
+    agent?.approval.cancelAll();
     agent?.emitter?.removeAllListeners();
+    // 中止的调用收尾后再保存一次，记录中止说明与已执行的操作
+    if (aborting) agent.emitter.once("aborted", () => saveHistory());
     await saveHistory();
   });
 
   async function saveHistory() {
     const history = agent?.history || [];
-    //保存对话记录
-    const existing = await u
+    //保存对话记录（会话可能已在其他页面被删除，此时不再写回）
+    await u
       .db("t_chatHistory")
-      .where({ projectId: Number(projectId), type: "outlineAgent" })
-      .first();
-    if (existing) {
-      await u
-        .db("t_chatHistory")
-        .where({ projectId: Number(projectId), type: "outlineAgent" })
-        .update({ data: JSON.stringify(history), novel: agent?.novelChapters ? JSON.stringify(agent.novelChapters) : "" });
-    } else {
-      await u.db("t_chatHistory").insert({
-        projectId: Number(projectId),
-        data: JSON.stringify(history),
-        novel: agent?.novelChapters ? JSON.stringify(agent.novelChapters) : "",
-        type: "outlineAgent",
-      });
-    }
+      .where({ id: threadId, type: "outlineAgent" })
+      .update({ data: JSON.stringify(history), summary: agent?.memory ?? "", updateTime: Date.now() });
   }
 });
 
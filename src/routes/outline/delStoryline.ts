@@ -0,0 +1,21 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 删除故事线
+export default router.post(
+  "/",
+  validateFields({
+    id: z.number(),
+  }),
+  async (req, res) => {
+    const { id } = req.body;
+
+    await u.db("t_storyline").where("id", id).del();
+
+    res.status(200).send(success({ message: "删除故事线成功" }));
+  }
+);
@@ -0,0 +1,35 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { diffOutlineData } from "@/utils/outlineVersion";
+const router = express.Router();
+
+// 按字段比对大纲的两个版本，未传 toVersionId 时与当前内容比对
+export default router.post(
+  "/",
+  validateFields({
+    fromVersionId: z.number(),
+    toVersionId: z.number().optional(),
+  }),
+  async (req, res) => {
+    const { fromVersionId, toVersionId } = req.body;
+
+    const from = await u.db("t_outlineVersion").where("id", fromVersionId).first();
+    if (!from) return res.status(400).send(error("版本不存在"));
+
+    let toData: string | null | undefined;
+    if (toVersionId) {
+      const to = await u.db("t_outlineVersion").where("id", toVersionId).first();
+      if (!to) return res.status(400).send(error("版本不存在"));
+      if (to.outlineId !== from.outlineId) return res.status(400).send(error("只能比对同一大纲的版本"));
+      toData = to.data;
+    } else {
+      const outline = await u.db("t_outline").where("id", from.outlineId!).select("data").first();
+      toData = outline?.data ?? null;
+    }
+
+    res.status(200).send(success({ outlineId: from.outlineId, fields: diffOutlineData(from.data, toData) }));
+  },
+);
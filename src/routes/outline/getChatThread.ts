@@ -0,0 +1,33 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 获取大纲Agent会话列表
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+  }),
+  async (req, res) => {
+    const { projectId } = req.body;
+
+    const threads = await u
+      .db("t_chatHistory")
+      .where({ projectId, type: "outlineAgent" })
+      .select("id", "name", "data", "createTime", "updateTime")
+      .orderBy("updateTime", "desc");
+
+    const data = threads.map((t) => {
+      let messageCount = 0;
+      try {
+        messageCount = JSON.parse(t.data || "[]").length;
+      } catch {}
+      return { id: t.id, name: t.name || "默认会话", messageCount, createTime: t.createTime, updateTime: t.updateTime };
+    });
+
+    res.status(200).send(success(data));
+  },
+);
@@ -0,0 +1,21 @@
+import express from "express";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import analyzeCoverage from "@/utils/outlineCoverage";
+const router = express.Router();
+
+// 获取大纲的章节覆盖情况（遗漏、重复、乱序及每集原文篇幅）
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+  }),
+  async (req, res) => {
+    const { projectId } = req.body;
+
+    const report = await analyzeCoverage(projectId);
+
+    res.status(200).send(success(report));
+  },
+);
@@ -0,0 +1,33 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 获取大纲历史版本
+export default router.post(
+  "/",
+  validateFields({
+    outlineId: z.number(),
+  }),
+  async (req, res) => {
+    const { outlineId } = req.body;
+
+    const list = await u
+      .db("t_outlineVersion")
+      .where("outlineId", outlineId)
+      .select("id", "outlineId", "episode", "data", "action", "source", "turnId", "createTime")
+      .orderBy("id", "desc");
+
+    const data = list.map(({ data, ...item }) => {
+      let title = "";
+      try {
+        title = data ? (JSON.parse(data).title ?? "") : "";
+      } catch {}
+      return { ...item, title, empty: data == null };
+    });
+
+    res.status(200).send(success(data));
+  },
+);
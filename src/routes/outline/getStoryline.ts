@@ -1,11 +1,11 @@
 import express from "express";
-import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { findStorylines } from "@/utils/storyline";
 const router = express.Router();
 
-// 获取故事线数据
+// 获取故事线数据（主线字段保持原有结构，storylines 为包含支线的完整列表）
 export default router.post(
   "/",
   validateFields({
@@ -13,7 +13,9 @@ export default router.post(
   }),
   async (req, res) => {
     const { projectId } = req.body;
-    const data = await u.db("t_storyline").where("projectId", projectId).first();
+    const storylines = await findStorylines(projectId);
+    const main = storylines.find((item) => item.type === "main");
+    const data = storylines.length ? { ...main, projectId, storylines } : null;
     res.status(200).send(success(data));
   }
 );
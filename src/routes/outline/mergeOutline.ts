@@ -0,0 +1,27 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { mergeEpisodes } from "@/utils/outlineEpisode";
+const router = express.Router();
+
+// 将两集大纲合并为一集
+export default router.post(
+  "/",
+  validateFields({
+    firstId: z.number(),
+    secondId: z.number(),
+    data: z.string(),
+  }),
+  async (req, res) => {
+    const { firstId, secondId, data } = req.body;
+
+    try {
+      const result = await mergeEpisodes(firstId, secondId, JSON.parse(data), { source: "manual" });
+      res.status(200).send(success({ message: "合并大纲成功", ...result }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
@@ -0,0 +1,26 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { moveEpisode } from "@/utils/outlineEpisode";
+const router = express.Router();
+
+// 调整大纲集数顺序
+export default router.post(
+  "/",
+  validateFields({
+    id: z.number(),
+    toEpisode: z.number().int().min(1),
+  }),
+  async (req, res) => {
+    const { id, toEpisode } = req.body;
+
+    try {
+      const episode = await moveEpisode(id, toEpisode, { source: "manual" });
+      res.status(200).send(success({ message: "调整集数成功", episode }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
@@ -0,0 +1,22 @@
+import express from "express";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { restoreLastAgentTurn } from "@/utils/outlineVersion";
+const router = express.Router();
+
+// 将项目大纲恢复到最近一轮 Agent 调用之前，重复调用时逐轮向前回滚
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+  }),
+  async (req, res) => {
+    const { projectId } = req.body;
+
+    const result = await restoreLastAgentTurn(projectId);
+    if (!result) return res.status(400).send(error("没有可回滚的 Agent 修改"));
+
+    res.status(200).send(success({ message: "已恢复到上一轮 Agent 修改之前", ...result }));
+  },
+);
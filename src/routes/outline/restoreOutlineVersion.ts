@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { restoreOutlineVersion } from "@/utils/outlineVersion";
+const router = express.Router();
+
+// 恢复大纲到指定版本
+export default router.post(
+  "/",
+  validateFields({
+    versionId: z.number(),
+  }),
+  async (req, res) => {
+    const { versionId } = req.body;
+
+    try {
+      const result = await restoreOutlineVersion(versionId);
+      res.status(200).send(success({ message: "恢复大纲成功", result }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
@@ -0,0 +1,27 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { splitEpisode } from "@/utils/outlineEpisode";
+const router = express.Router();
+
+// 将一集大纲拆分为两集
+export default router.post(
+  "/",
+  validateFields({
+    id: z.number(),
+    first: z.string(),
+    second: z.string(),
+  }),
+  async (req, res) => {
+    const { id, first, second } = req.body;
+
+    try {
+      const result = await splitEpisode(id, JSON.parse(first), JSON.parse(second), { source: "manual" });
+      res.status(200).send(success({ message: "拆分大纲成功", ...result }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
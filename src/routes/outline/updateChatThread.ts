@@ -0,0 +1,22 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 重命名大纲Agent会话
+export default router.post(
+  "/",
+  validateFields({
+    id: z.number(),
+    name: z.string().min(1),
+  }),
+  async (req, res) => {
+    const { id, name } = req.body;
+
+    await u.db("t_chatHistory").where({ id, type: "outlineAgent" }).update({ name });
+
+    res.status(200).send(success({ message: "重命名会话成功" }));
+  },
+);
@@ -3,6 +3,8 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { recordOutlineSource } from "@/utils/sourceHash";
+import { snapshotOutlines } from "@/utils/outlineVersion";
 const router = express.Router();
 
 // 更新大纲
@@ -15,9 +17,11 @@ export default router.post(
   async (req, res) => {
     const { id, data } = req.body;
 
+    await snapshotOutlines([id], "update", { source: "manual" });
     await u.db("t_outline").where("id", id).update({
       data,
     });
+    await recordOutlineSource([id]);
 
     res.status(200).send(success({ message: "更新大纲成功" }));
   }
@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { requestAuthor, saveScriptContent } from "@/utils/scriptRevision";
 const router = express.Router();
 
 // 更新前要
@@ -15,9 +16,7 @@ export default router.post(
   async (req, res) => {
     const { id, content } = req.body;
 
-    await u.db("t_script").where("id", id).update({
-      content,
-    });
+    await saveScriptContent(id, content, { source: "manual", author: requestAuthor(req) });
 
     res.status(200).send(success({ message: "更新前要成功" }));
   }
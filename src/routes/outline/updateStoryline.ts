@@ -1,27 +1,30 @@
 import express from "express";
 import u from "@/utils";
 import { z } from "zod";
-import { success } from "@/lib/responseFormat";
+import { success, error } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { saveStoryline, storylineStructureSchema } from "@/utils/storyline";
 const router = express.Router();
 
-// 更新故事线
+// 更新故事线，未传 id 时更新主线（支线则新增）
 export default router.post(
   "/",
   validateFields({
     projectId: z.number(),
-    content: z.string(),
+    id: z.number().optional(),
+    name: z.string().optional(),
+    type: z.enum(["main", "subplot"]).optional(),
+    content: z.string().optional(),
+    structure: storylineStructureSchema.nullable().optional(),
   }),
   async (req, res) => {
-    const { projectId, content } = req.body;
+    const { projectId, id, name, type, content, structure } = req.body;
 
-    const existing = await u.db("t_storyline").where({ projectId }).first();
-    if (existing) {
-      await u.db("t_storyline").where({ projectId }).update({ content });
-    } else {
-      await u.db("t_storyline").insert({ projectId: projectId, content: content });
+    try {
+      const storyline = await saveStoryline(projectId, { id, name, type, content, structure });
+      res.status(200).send(success({ message: "更新故事线成功", id: storyline.id }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
     }
-
-    res.status(200).send(success({ message: "更新故事线成功" }));
   }
 );
@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { cancelBatchScriptTask } from "@/utils/batchScript";
 const router = express.Router();
 
 // 删除项目
@@ -25,8 +26,14 @@ export default router.post(
 
     await u.db("t_project").where("id", id).delete();
     await u.db("t_novel").where("projectId", id).delete();
+    await u.db("t_novelHistory").where("projectId", id).delete();
+    await u.db("t_chapterSummary").where("projectId", id).delete();
     await u.db("t_storyline").where("projectId", id).delete();
     await u.db("t_outline").where("projectId", id).delete();
+    await u.db("t_outlineVersion").where("projectId", id).delete();
+    await u.db("t_scriptRevision").where("projectId", id).delete();
+    await u.db("t_storyboardSegment").where("projectId", id).delete();
+    await u.db("t_storyboardShot").where("projectId", id).delete();
 
     await u.db("t_script").where("projectId", id).delete();
     await u.db("t_assets").where("projectId", id).delete();
@@ -46,6 +53,13 @@ export default router.post(
     await u.db("t_video").whereIn("scriptId", scriptIds).delete();
 
     await u.db("t_chatHistory").where("projectId", id).delete();
+    await u.db("t_toolTrace").where("projectId", id).delete();
+
+    // 任务以 projectName 记录项目ID，不删除的话进行中的批量任务会在启动时被继续执行
+    const taskIds = (await u.db("t_taskList").where("projectName", id).select("id")).map((item) => item.id!);
+    for (const taskId of taskIds) cancelBatchScriptTask(taskId);
+    await u.db("t_taskItem").whereIn("taskId", taskIds).delete();
+    await u.db("t_taskList").whereIn("id", taskIds).delete();
 
     try {
       await u.oss.deleteDirectory(`${id}/`);
@@ -0,0 +1,47 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 获取Agent工具调用记录
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    type: z.enum(["outlineAgent", "storyboardAgent"]).optional(),
+    threadId: z.number().optional(),
+    scriptId: z.number().optional(),
+    toolName: z.string().optional(),
+    page: z.number().optional(),
+    limit: z.number().optional(),
+  }),
+  async (req, res) => {
+    const { projectId, type, threadId, scriptId, toolName, page = 1, limit = 50 } = req.body;
+
+    const query = u.db("t_toolTrace").where("projectId", projectId);
+    if (type) query.where("type", type);
+    if (threadId) query.where("threadId", threadId);
+    if (scriptId) query.where("scriptId", scriptId);
+    if (toolName) query.where("toolName", toolName);
+
+    const total = await query.clone().count("* as total").first<{ total: number | string }>();
+    const list = await query
+      .select("*")
+      .orderBy("startTime", "desc")
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const parse = (text: string | null | undefined) => {
+      try {
+        return text ? JSON.parse(text) : null;
+      } catch {
+        return text;
+      }
+    };
+    const data = list.map((item) => ({ ...item, args: parse(item.args), result: parse(item.result) }));
+
+    res.status(200).send(success({ total: Number(total?.total ?? 0), list: data }));
+  },
+);
@@ -14,15 +14,17 @@ export default router.post(
     type: z.string().optional().nullable(),
     artStyle: z.string().optional().nullable(),
     videoRatio: z.string().optional().nullable(),
+    toolPermission: z.enum(["auto", "confirm"]).optional(),
   }),
   async (req, res) => {
-    const { id, intro, type, artStyle, videoRatio } = req.body;
+    const { id, intro, type, artStyle, videoRatio, toolPermission } = req.body;
 
     await u.db("t_project").where("id", id).update({
       intro,
       type,
       artStyle,
       videoRatio,
+      toolPermission,
     });
 
     res.status(200).send(success({ message: "修改成功" }));
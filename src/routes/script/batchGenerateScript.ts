@@ -0,0 +1,30 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { createBatchScriptTask, runBatchScriptTask } from "@/utils/batchScript";
+const router = express.Router();
+
+// 批量生成剧本，任务在后台执行，进度通过任务列表查询
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    startEpisode: z.number().int().min(1),
+    endEpisode: z.number().int().min(1),
+    concurrency: z.number().int().min(1).optional(),
+  }),
+  async (req, res) => {
+    const { projectId, startEpisode, endEpisode, concurrency } = req.body;
+    if (startEpisode > endEpisode) return res.status(400).send(error("起始集数不能大于结束集数"));
+
+    try {
+      const taskId = await createBatchScriptTask({ projectId, startEpisode, endEpisode, concurrency });
+      runBatchScriptTask(taskId).catch((err) => console.error("[批量生成剧本] 任务执行失败:", err));
+      res.status(200).send(success({ message: "批量生成任务已创建", taskId }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
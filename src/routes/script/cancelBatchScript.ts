@@ -0,0 +1,20 @@
+import express from "express";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { cancelBatchScriptTask } from "@/utils/batchScript";
+const router = express.Router();
+
+// 取消批量生成任务，正在生成的集完成后停止
+export default router.post(
+  "/",
+  validateFields({
+    taskId: z.number(),
+  }),
+  async (req, res) => {
+    const { taskId } = req.body;
+
+    if (!cancelBatchScriptTask(taskId)) return res.status(400).send(error("任务未在执行"));
+    res.status(200).send(success({ message: "任务将在当前集生成完成后停止" }));
+  },
+);
@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { diffScriptRevisions } from "@/utils/scriptRevision";
+const router = express.Router();
+
+// 逐行比对剧本的两个修订，未传 toRevisionId 时与当前内容比对
+export default router.post(
+  "/",
+  validateFields({
+    fromRevisionId: z.number(),
+    toRevisionId: z.number().optional(),
+  }),
+  async (req, res) => {
+    const { fromRevisionId, toRevisionId } = req.body;
+    try {
+      const result = await diffScriptRevisions(fromRevisionId, toRevisionId);
+      res.status(200).send(success(result));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
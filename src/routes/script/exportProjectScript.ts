@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { exportProjectScript } from "@/utils/screenplayExport";
+const router = express.Router();
+
+// 按集数顺序导出项目全部剧本为 Fountain 或 Final Draft（FDX）
+export default router.post(
+  "/",
+  validateFields({
+    projectId: z.number(),
+    format: z.enum(["fountain", "fdx"]),
+  }),
+  async (req, res) => {
+    const { projectId, format } = req.body;
+    try {
+      const file = await exportProjectScript(projectId, format);
+      res.status(200).send(success(file));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { exportScript } from "@/utils/screenplayExport";
+const router = express.Router();
+
+// 导出单集剧本为 Fountain 或 Final Draft（FDX）
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+    format: z.enum(["fountain", "fdx"]),
+  }),
+  async (req, res) => {
+    const { scriptId, format } = req.body;
+    try {
+      const file = await exportScript(scriptId, format);
+      res.status(200).send(success(file));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
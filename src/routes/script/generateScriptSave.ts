@@ -3,7 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
-import { generateScript } from "@/utils/generateScript";
+import { requestAuthor, saveScriptContent } from "@/utils/scriptRevision";
 const router = express.Router();
 
 // 生成剧本
@@ -17,9 +17,7 @@ export default router.post(
   async (req, res) => {
     const { outlineId, scriptId, content } = req.body;
 
-    await u.db("t_script").where("id", scriptId).update({
-      content: content,
-    });
+    await saveScriptContent(scriptId, content, { source: "manual", author: requestAuthor(req) });
 
     res.status(200).send(success({ message: "保存成功" }));
   },
@@ -0,0 +1,123 @@
+import express from "express";
+import expressWs, { Application } from "express-ws";
+import u from "@/utils";
+import { mergeNovelText, streamScript } from "@/utils/generateScript";
+import { recordScriptSource } from "@/utils/sourceHash";
+import { AI_AUTHOR, ensureBaselineRevision, RevisionMeta, saveScriptContent } from "@/utils/scriptRevision";
+const router = express.Router();
+expressWs(router as unknown as Application);
+
+// 生成过程中保存已生成内容的间隔（毫秒）
+const SAVE_INTERVAL = 2000;
+
+// 流式生成剧本：边生成边推送并定时保存，支持中途取消
+router.ws("/", async (ws, req) => {
+  const outlineId = Number(req.query.outlineId);
+  const scriptId = Number(req.query.scriptId);
+  if (!outlineId || !scriptId) {
+    ws.send(JSON.stringify({ type: "error", data: "大纲ID或剧本ID缺失" }));
+    ws.close(1008, "大纲ID或剧本ID缺失");
+    return;
+  }
+
+  let controller: AbortController | null = null;
+  // 取消时是否保留已生成的部分内容，默认恢复为生成前的剧本
+  let keepPartial = false;
+
+  const send = (type: string, data?: unknown) => ws.send(JSON.stringify({ type, data }));
+
+  async function generate() {
+    // 先同步占用，避免等待数据库期间重复生成或取消被忽略
+    const abort = new AbortController();
+    controller = abort;
+    keepPartial = false;
+    // 中间保存与失败恢复不记录修订，只有最终结果记录
+    const save = (content: string, revision?: RevisionMeta) => saveScriptContent(scriptId, content, revision);
+    const revision: RevisionMeta = { source: "generate", author: AI_AUTHOR };
+    // 生成前的剧本，开始覆盖前为 null，此时失败无需恢复
+    let original: string | null = null;
+    let text = "";
+    try {
+      const outline = await u.db("t_outline").where("id", outlineId).select("*").first();
+      if (!outline) return send("error", "大纲为空");
+      const script = await u.db("t_script").where("id", scriptId).first();
+      if (!script) return send("error", "剧本不存在");
+      const parameter = JSON.parse(outline.data!);
+
+      const novelData = await u.db("t_novel").whereIn("chapterIndex", parameter.chapterRange).where("projectId", outline.projectId).select("*");
+      if (novelData.length == 0) return send("error", "原文为空");
+
+      // 中间保存会覆盖原内容，生成前先留存基线
+      await ensureBaselineRevision(script);
+      original = script.content ?? "";
+
+      let lastSave = Date.now();
+      send("start", { outlineId, scriptId });
+      const { fullStream } = await streamScript(parameter, mergeNovelText(novelData), abort.signal);
+      for await (const item of fullStream) {
+        if (item.type == "error") throw item.error;
+        if (item.type != "text-delta") continue;
+        text += item.text;
+        send("stream", item.text);
+        if (Date.now() - lastSave >= SAVE_INTERVAL) {
+          lastSave = Date.now();
+          await save(text);
+          send("saved", { length: text.length });
+        }
+      }
+
+      if (abort.signal.aborted) {
+        await (keepPartial ? save(text, revision) : save(original));
+        send("aborted", { text, kept: keepPartial });
+        return;
+      }
+      if (!text) throw new Error("生成剧本失败");
+
+      await save(text, revision);
+      await recordScriptSource(scriptId);
+      send("response_end", text);
+    } catch (err) {
+      console.error(err);
+      // 失败时恢复生成前的剧本，避免留下不完整的内容
+      if (original !== null) {
+        await save(original).catch((saveErr) => console.error("[剧本生成] 恢复原剧本失败:", saveErr));
+      }
+      send("error", abort.signal.aborted ? "剧本生成已取消" : u.error(err).message);
+    } finally {
+      controller = null;
+    }
+  }
+
+  send("init", { outlineId, scriptId });
+
+  type DataType = "generate" | "abort";
+  ws.on("message", async function (rawData: string) {
+    let data: { type: DataType; data: any } | null = null;
+    try {
+      data = JSON.parse(rawData);
+    } catch (error) {
+      send("error", "数据解析异常");
+      return;
+    }
+
+    switch (data?.type) {
+      case "generate":
+        if (controller) return send("notice", "剧本正在生成中");
+        await generate();
+        break;
+      case "abort":
+        if (!controller) return send("notice", "当前没有进行中的任务");
+        keepPartial = !!data.data?.keep;
+        controller.abort();
+        break;
+      default:
+        break;
+    }
+  });
+
+  ws.on("close", () => {
+    controller?.abort();
+  });
+});
+
+export default router;
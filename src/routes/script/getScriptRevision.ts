@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+const router = express.Router();
+
+// 获取剧本修订记录
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+  }),
+  async (req, res) => {
+    const { scriptId } = req.body;
+
+    const list = await u
+      .db("t_scriptRevision")
+      .where("scriptId", scriptId)
+      .select("id", "scriptId", "content", "source", "author", "restoreFrom", "createTime")
+      .orderBy("id", "desc");
+
+    res.status(200).send(success(list));
+  },
+);
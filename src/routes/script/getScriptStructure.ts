@@ -0,0 +1,31 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { extractDialogue, getScriptStructure, parseScreenplay } from "@/utils/screenplay";
+const router = express.Router();
+
+// 获取剧本结构（场景、镜头、台词、转场），传入 content 时只解析不保存
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number().optional(),
+    content: z.string().optional(),
+  }),
+  async (req, res) => {
+    const { scriptId, content } = req.body;
+
+    let screenplay;
+    if (content !== undefined) {
+      screenplay = parseScreenplay(content);
+    } else {
+      if (!scriptId) return res.status(400).send(error("剧本ID或内容缺失"));
+      const script = await u.db("t_script").where("id", scriptId).first();
+      if (!script) return res.status(400).send(error("剧本不存在"));
+      screenplay = getScriptStructure(script);
+    }
+
+    res.status(200).send(success({ ...screenplay, dialogue: extractDialogue(screenplay) }));
+  },
+);
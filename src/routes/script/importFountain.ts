@@ -0,0 +1,29 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { requestAuthor, saveScriptContent } from "@/utils/scriptRevision";
+import { fountainToScript } from "@/utils/screenplayExport";
+const router = express.Router();
+
+// 导入 Fountain 文本覆盖剧本内容
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+    content: z.string(),
+  }),
+  async (req, res) => {
+    const { scriptId, content } = req.body;
+
+    const script = await u.db("t_script").where("id", scriptId).first();
+    if (!script) return res.status(400).send(error("剧本不存在"));
+
+    const text = fountainToScript(content);
+    if (!text.trim()) return res.status(400).send(error("未解析到剧本内容"));
+    const structure = await saveScriptContent(scriptId, text, { source: "import", author: requestAuthor(req) });
+
+    res.status(200).send(success({ message: "导入剧本成功", content: text, structure }));
+  },
+);
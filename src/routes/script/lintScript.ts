@@ -0,0 +1,35 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { countScriptLength, lintScript } from "@/utils/scriptLint";
+const router = express.Router();
+
+// 按大纲检查剧本，未传 content 时检查已保存的剧本
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+    content: z.string().optional(),
+  }),
+  async (req, res) => {
+    const { scriptId, content } = req.body;
+
+    const script = await u.db("t_script").where("id", scriptId).first();
+    if (!script) return res.status(400).send(error("剧本不存在"));
+    const outline = await u.db("t_outline").where("id", script.outlineId!).select("data").first();
+    if (!outline) return res.status(400).send(error("大纲不存在"));
+
+    const text = content ?? script.content ?? "";
+    const issues = lintScript(text, JSON.parse(outline.data || "{}"));
+
+    res.status(200).send(
+      success({
+        passed: !issues.some((i) => i.level === "error"),
+        length: countScriptLength(text),
+        issues,
+      }),
+    );
+  },
+);
@@ -0,0 +1,24 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { requestAuthor, restoreScriptRevision } from "@/utils/scriptRevision";
+const router = express.Router();
+
+// 恢复剧本到指定修订
+export default router.post(
+  "/",
+  validateFields({
+    revisionId: z.number(),
+  }),
+  async (req, res) => {
+    const { revisionId } = req.body;
+    try {
+      const result = await restoreScriptRevision(revisionId, requestAuthor(req));
+      res.status(200).send(success({ message: "恢复剧本成功", result }));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
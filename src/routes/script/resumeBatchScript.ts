@@ -0,0 +1,25 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { BATCH_SCRIPT_TASK, runBatchScriptTask } from "@/utils/batchScript";
+const router = express.Router();
+
+// 继续执行批量生成任务，已成功的集不会重新生成
+export default router.post(
+  "/",
+  validateFields({
+    taskId: z.number(),
+    retryFailed: z.boolean().optional(),
+  }),
+  async (req, res) => {
+    const { taskId, retryFailed = true } = req.body;
+
+    const task = await u.db("t_taskList").where({ id: taskId, type: BATCH_SCRIPT_TASK }).first();
+    if (!task) return res.status(400).send(error("任务不存在"));
+
+    runBatchScriptTask(taskId, retryFailed).catch((err) => console.error("[批量生成剧本] 任务执行失败:", err));
+    res.status(200).send(success({ message: "任务已继续执行", taskId }));
+  },
+);
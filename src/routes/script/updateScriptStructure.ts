@@ -0,0 +1,28 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { renderScreenplay, screenplaySchema } from "@/utils/screenplay";
+import { requestAuthor, saveScriptContent } from "@/utils/scriptRevision";
+const router = express.Router();
+
+// 按结构更新剧本，结构会还原为文本写回剧本内容
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+    structure: screenplaySchema,
+  }),
+  async (req, res) => {
+    const { scriptId, structure } = req.body;
+
+    const script = await u.db("t_script").where("id", scriptId).first();
+    if (!script) return res.status(400).send(error("剧本不存在"));
+
+    const content = renderScreenplay(structure);
+    await saveScriptContent(scriptId, content, { source: "manual", author: requestAuthor(req) });
+
+    res.status(200).send(success({ message: "更新剧本成功", content }));
+  },
+);
@@ -2,6 +2,7 @@ import express from "express";
 import expressWs, { Application } from "express-ws";
 import u from "@/utils";
 import Storyboard from "@/agents/storyboard";
+import { saveToolTrace, toClientTrace } from "@/utils/toolTrace";
 const router = express.Router();
 expressWs(router as unknown as Application);
 
@@ -18,15 +19,29 @@ router.ws("/", async (ws, req) => {
   }
 
   agent = new Storyboard(Number(projectId), Number(scriptId));
+  try {
+    await agent.ready;
+  } catch (err) {
+    ws.send(JSON.stringify({ type: "error", data: "分镜数据加载异常" }));
+    console.error(err);
+    agent.dispose();
+    ws.close(1011, "分镜数据加载异常");
+    return;
+  }
+
+  // 危险工具的确认模式按项目配置，默认需要确认
+  const project = await u.db("t_project").where("id", Number(projectId)).select("toolPermission").first();
+  agent.approval.mode = project?.toolPermission === "auto" ? "auto" : "confirm";
 
   const existing = await u
     .db("t_chatHistory")
-    .where({ projectId: Number(projectId) })
+    .where({ projectId: Number(projectId), type: "storyboardAgent" })
     .first();
   if (existing) {
     try {
       agent.history = JSON.parse(existing.data!);
       agent.novelChapters = existing.novel ? JSON.parse(existing.novel) : [];
+      agent.memory = existing.summary ?? "";
     } catch (error) {
       ws.send(JSON.stringify({ type: "error", data: "历史记录解析异常,将清空历史记录" }));
       agent.history = [];
@@ -60,10 +75,39 @@ router.ws("/", async (ws, req) => {
     ws.send(JSON.stringify({ type: "toolCall", data }));
   });
 
+  // Tool 完成（含结果、耗时、错误），同时入库备查
+  agent.emitter.on("toolResult", async (data) => {
+    ws.send(JSON.stringify({ type: "toolResult", data: toClientTrace(data) }));
+    await saveToolTrace({ projectId: Number(projectId), type: "storyboardAgent", scriptId: Number(scriptId) }, data).catch((err) =>
+      console.error("[工具调用记录] 保存失败:", err),
+    );
+  });
+
   agent.emitter.on("transfer", (data) => {
     ws.send(JSON.stringify({ type: "transfer", data }));
   });
 
+  // 危险操作等待用户确认
+  agent.emitter.on("approvalRequest", (data) => {
+    ws.send(JSON.stringify({ type: "approvalRequest", data }));
+  });
+
+  // 确认结果（approved/denied/timeout/aborted）
+  agent.emitter.on("approvalResult", (data) => {
+    ws.send(JSON.stringify({ type: "approvalResult", data }));
+  });
+
+  // 任务已中止，附带已执行完成的工具调用
+  agent.emitter.on("aborted", async (data) => {
+    ws.send(JSON.stringify({ type: "aborted", data }));
+    await saveHistory();
+  });
+
+  // 历史记录已压缩
+  agent.emitter.on("compacted", (data) => {
+    ws.send(JSON.stringify({ type: "compacted", data }));
+  });
+
   agent.emitter.on("refresh", (data) => {
     ws.send(JSON.stringify({ type: "refresh", data }));
   });
@@ -102,10 +146,43 @@ router.ws("/", async (ws, req) => {
     ws.send(JSON.stringify({ type: "shotImageGenerateError", data }));
   });
 
+  // 推送已保存的片段和分镜，恢复上次的编辑状态
+  if (agent.getSegmentsData().length) ws.send(JSON.stringify({ type: "segmentsUpdated", data: agent.getSegmentsData() }));
+  if (agent.getShotsData().length) ws.send(JSON.stringify({ type: "shotsUpdated", data: agent.getShotsData() }));
+
+  // 单个镜头重绘开始
+  agent.emitter.on("cellImageGenerateStart", (data) => {
+    ws.send(JSON.stringify({ type: "cellImageGenerateStart", data }));
+  });
+
+  // 单个镜头重绘完成
+  agent.emitter.on("cellImageGenerateComplete", (data) => {
+    ws.send(JSON.stringify({ type: "cellImageGenerateComplete", data }));
+  });
+
+  // 单个镜头重绘错误
+  agent.emitter.on("cellImageGenerateError", (data) => {
+    ws.send(JSON.stringify({ type: "cellImageGenerateError", data }));
+  });
+
+  // 分镜审核建议（审核完成、采纳或忽略后推送当前全部待确认建议）
+  agent.emitter.on("reviewSuggestions", (data) => {
+    ws.send(JSON.stringify({ type: "reviewSuggestions", data }));
+  });
+
   // 发送初始化完成消息，通知前端可以开始发送消息
   ws.send(JSON.stringify({ type: "init", data: { projectId, scriptId } }));
 
-  type DataTyype = "msg" | "cleanHistory" | "generateShotImage" | "replaceShot";
+  type DataTyype =
+    | "msg"
+    | "cleanHistory"
+    | "generateShotImage"
+    | "replaceShot"
+    | "regenerateCell"
+    | "applyReviewSuggestion"
+    | "dismissReviewSuggestion"
+    | "abort"
+    | "approval";
   ws.on("message", async function (rawData: string) {
     let data: { type: DataTyype; data: any } | null = null;
 
@@ -128,24 +205,41 @@ router.ws("/", async (ws, req) => {
           let prompt = msg.data;
           if (msg.type == "user") await agent.call(prompt);
           break;
+        case "approval":
+          if (!agent.approval.respond(msg.id, !!msg.approved)) ws.send(JSON.stringify({ type: "notice", data: "确认请求已失效" }));
+          break;
+        case "abort":
+          if (!agent.abort()) ws.send(JSON.stringify({ type: "notice", data: "当前没有进行中的任务" }));
+          break;
         case "cleanHistory":
           agent.history = [];
+          agent.memory = "";
           await u
             .db("t_chatHistory")
-            .where({ projectId: Number(projectId) })
+            .where({ projectId: Number(projectId), type: "storyboardAgent" })
             .del();
           ws.send(JSON.stringify({ type: "notice", data: "历史记录已清空" }));
           break;
         case "generateShotImage":
           agent.history = [];
+          agent.memory = "";
           await u
             .db("t_chatHistory")
-            .where({ projectId: Number(projectId) })
+            .where({ projectId: Number(projectId), type: "storyboardAgent" })
             .del();
           ws.send(JSON.stringify({ type: "notice", data: "历史记录已清空" }));
           break;
         case "replaceShot":
-          agent.updatePreShots(msg.segmentId, msg.cellId, msg.cell);
+          await agent.updatePreShots(msg.segmentId, msg.cellId, msg.cell);
+          break;
+        case "regenerateCell":
+          ws.send(JSON.stringify({ type: "notice", data: await agent.regenerateCell(Number(msg.shotId), String(msg.cellId)) }));
+          break;
+        case "applyReviewSuggestion":
+          ws.send(JSON.stringify({ type: "notice", data: await agent.applyReviewSuggestion(String(msg.id)) }));
+          break;
+        case "dismissReviewSuggestion":
+          ws.send(JSON.stringify({ type: "notice", data: agent.dismissReviewSuggestion(String(msg.id)) }));
           break;
         default:
           break;
@@ -157,7 +251,13 @@ router.ws("/", async (ws, req) => {
   });
 
   ws.on("close", async () => {
+    // 连接断开后不再继续执行进行中的任务
+    const aborting = agent?.abort();
+    agent?.approval.cancelAll();
     agent?.emitter?.removeAllListeners();
+    // 中止的调用收尾后再保存一次，记录中止说明与已执行的操作
+    if (aborting) agent.emitter.once("aborted", () => saveHistory());
+    agent?.dispose();
     await saveHistory();
   });
 
@@ -172,11 +272,12 @@ router.ws("/", async (ws, req) => {
       await u
         .db("t_chatHistory")
         .where({ projectId: Number(projectId), type: "storyboardAgent" })
-        .update({ data: JSON.stringify(history), novel: agent?.novelChapters ? JSON.stringify(agent.novelChapters) : "" });
+        .update({ data: JSON.stringify(history), summary: agent?.memory ?? "", novel: agent?.novelChapters ? JSON.stringify(agent.novelChapters) : "" });
     } else {
       await u.db("t_chatHistory").insert({
         projectId: Number(projectId),
         data: JSON.stringify(history),
+        summary: agent?.memory ?? "",
         novel: agent?.novelChapters ? JSON.stringify(agent.novelChapters) : "",
         type: "storyboardAgent",
       });
@@ -0,0 +1,24 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { exportShotList } from "@/utils/storyboardStore";
+const router = express.Router();
+
+// 导出剧本的分镜镜头表（CSV）
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+  }),
+  async (req, res) => {
+    const { scriptId } = req.body;
+    try {
+      const file = await exportShotList(scriptId);
+      res.status(200).send(success(file));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
@@ -4,6 +4,7 @@ import { error, success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
 import { z } from "zod";
 import axios from "axios";
+import { describeShotMeta, findShotMeta, ShotMeta, shotMetaSchema } from "@/utils/storyboardStore";
 
 const router = express.Router();
 
@@ -14,6 +15,7 @@ const prompt = `
 你将接收用户输入的：  
 - **分镜图片**（单张）  
 - **分镜提示词**（对应该镜头）  
+- **镜头信息**（可选：景别、角度、运镜、计划时长、出场角色、台词）  
 - **剧本内容**  
 
 你需输出**规范的 Motion Prompt JSON 对象**。
@@ -25,6 +27,7 @@ const prompt = `
 ### 1. 画面类型描述（必需，开头一句）
 - 明确本分镜属于：**前景/近景/中景/远景/全景**
 - 表述格式："中景。" / "近景。" / "远景。" / "全景。"
+- 若提供了**镜头信息**，景别、运镜、时长以镜头信息为准，台词按角色口型与表演体现
 
 ### 3. 细致动作叙述
 清晰分别描述以下要素：
@@ -108,11 +111,14 @@ async function generateSingleVideoPrompt({
   scriptText,
   storyboardPrompt,
   ossPath,
+  shotMeta,
 }: {
   scriptText: string;
   storyboardPrompt: string;
   ossPath: string;
+  shotMeta?: ShotMeta;
 }): Promise<{ content: string; time: number; name: string }> {
+  const metaText = shotMeta ? describeShotMeta(shotMeta) : "";
   const messages: any[] = [
     {
       role: "system",
@@ -123,7 +129,7 @@ async function generateSingleVideoPrompt({
       content: [
         {
           type: "text",
-          text: `剧本内容:${scriptText}\n分镜提示词:${storyboardPrompt}`,
+          text: `剧本内容:${scriptText}\n分镜提示词:${storyboardPrompt}${metaText ? `\n镜头信息:${metaText}` : ""}`,
         },
         {
           type: "image",
@@ -157,7 +163,8 @@ async function generateSingleVideoPrompt({
       throw new Error("AI 返回格式错误");
     }
 
-    return result;
+    // 已规划时长的镜头不让模型改动时长
+    return shotMeta?.duration ? { ...result, time: shotMeta.duration } : result;
   } catch (err: any) {
     console.error("generateSingleVideoPrompt 调用失败:", err?.message || err);
     throw new Error(`生成视频提示词失败: ${err?.message || "未知错误"}`);
@@ -172,6 +179,7 @@ export default router.post(
     id: z.string(),
     prompt: z.string().optional(),
     src: z.string(),
+    shotMeta: shotMetaSchema.optional(),
   }),
   async (req, res) => {
     const { projectId, scriptId, id, prompt: imagePrompt, src } = req.body;
@@ -183,10 +191,14 @@ export default router.post(
       const projectData = await u.db("t_project").where({ id: +projectId }).select("artStyle", "videoRatio").first();
       if (!projectData) return res.status(500).send(error("项目不存在"));
 
+      // 以已保存的镜头信息为准，请求中传入的字段作为覆盖
+      const shotMeta: ShotMeta = { ...(await findShotMeta(scriptId, id)), ...req.body.shotMeta };
+
       const result = await generateSingleVideoPrompt({
         scriptText: scriptData.content!,
         storyboardPrompt: imagePrompt || "",
         ossPath: src,
+        shotMeta,
       });
 
       res.status(200).send(
@@ -200,6 +212,7 @@ export default router.post(
           name: result.name || "",
           scriptId,
           src,
+          shotMeta,
         }),
       );
     } catch (err: any) {
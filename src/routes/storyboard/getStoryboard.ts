@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { parseShotMeta } from "@/utils/storyboardStore";
 
 const router = express.Router();
 
@@ -20,7 +21,7 @@ export default router.post(
       .db("t_assets")
       .where("scriptId", scriptId)
       .where("type", "分镜")
-      .select("id", "name", "intro", "prompt", "filePath", "duration", "videoPrompt", "scriptId", "type", "segmentId", "shotIndex").orderBy("segmentId", "asc").orderBy("shotIndex", "asc");
+      .select("id", "name", "intro", "prompt", "filePath", "duration", "videoPrompt", "scriptId", "type", "segmentId", "shotIndex", "shotMeta").orderBy("segmentId", "asc").orderBy("shotIndex", "asc");
 
     const assetsIds = assets.map((item: any) => item.id);
 
@@ -58,6 +59,7 @@ export default router.post(
           duration: item.duration,
           segmentId: item.segmentId ?? 1,
           shotIndex: item.shotIndex ?? 1,
+          shotMeta: parseShotMeta(item.shotMeta),
           generateImg: imgArr,
         };
       })
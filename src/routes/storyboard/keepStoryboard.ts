@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { shotMetaSchema } from "@/utils/storyboardStore";
 const router = express.Router();
 
 // 保存分镜图
@@ -21,6 +22,7 @@ export default router.post(
         scriptId: z.number(),
         segmentId: z.number(),
         shotIndex: z.number(),
+        shotMeta: shotMetaSchema.optional(),
       })
     ),
   }),
@@ -31,6 +33,7 @@ export default router.post(
       return {
         ...item,
         filePath: new URL(item.filePath).pathname,
+        shotMeta: item.shotMeta ? JSON.stringify(item.shotMeta) : null,
       };
     });
     // 按 base64Data 原始顺序过滤、插库
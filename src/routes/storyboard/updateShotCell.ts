@@ -0,0 +1,36 @@
+import express from "express";
+import u from "@/utils";
+import { z } from "zod";
+import { success, error } from "@/lib/responseFormat";
+import { validateFields } from "@/middleware/middleware";
+import { shotMetaSchema, updateShotCell } from "@/utils/storyboardStore";
+import { getLiveStoryboards } from "@/agents/storyboard";
+const router = express.Router();
+
+const patchSchema = shotMetaSchema.extend({ prompt: z.string().optional() });
+
+// 修改单个镜头的提示词与景别、角度、运镜、时长、角色、台词
+export default router.post(
+  "/",
+  validateFields({
+    scriptId: z.number(),
+    shotId: z.number(),
+    cellId: z.string(),
+    ...patchSchema.shape,
+  }),
+  async (req, res) => {
+    const { scriptId, shotId, cellId } = req.body;
+    try {
+      // 只取镜头字段，未传的字段不会覆盖原值
+      const patch = patchSchema.parse(req.body);
+      // 剧本的分镜正在编辑时经由 Agent 修改，同步内存数据并推送给前端
+      const agents = getLiveStoryboards(scriptId);
+      let cell;
+      for (const agent of agents) cell = await agent.updateShotCell(shotId, cellId, patch);
+      if (!agents.length) cell = await updateShotCell(scriptId, shotId, cellId, patch);
+      res.status(200).send(success(cell));
+    } catch (err) {
+      res.status(400).send(error(u.error(err).message));
+    }
+  },
+);
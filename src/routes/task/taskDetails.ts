@@ -13,6 +13,8 @@ export default router.post(
   async (req, res) => {
     const { taskId } = req.body;
     const data = await u.db("t_taskList").where("id", taskId).select("*").first();
-    res.status(200).send(success(data));
+    // 批量任务附带各子任务的状态
+    const items = data ? await u.db("t_taskItem").where("taskId", taskId).select("*").orderBy("episode", "asc") : [];
+    res.status(200).send(success(data ? { ...data, items } : data));
   }
 );
@@ -3,6 +3,7 @@ import u from "@/utils";
 import { error, success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
 import { z } from "zod";
+import { describeShotMeta, ShotMeta, shotMetaSchema } from "@/utils/storyboardStore";
 
 const router = express.Router();
 
@@ -50,6 +51,7 @@ export default router.post(
         z.object({
           filePath: z.string(),
           prompt: z.string(),
+          shotMeta: shotMetaSchema.optional(),
         }),
       )
       .optional(),
@@ -71,7 +73,12 @@ export default router.post(
         .first();
       if (!videoConfigData) return res.status(500).send(error("视频配置不存在"));
     }
-    const imagePrompts = images.map((i: { filePath: string; prompt: string }, index: number) => `Image ${index + 1}: ${i.prompt}`).join("\n");
+    const imagePrompts = images
+      .map((i: { filePath: string; prompt: string; shotMeta?: ShotMeta }, index: number) => {
+        const meta = i.shotMeta ? describeShotMeta(i.shotMeta) : "";
+        return `Image ${index + 1}: ${i.prompt}${meta ? `\n  Shot: ${meta}` : ""}`;
+      })
+      .join("\n");
 
     const shotCount = images.length;
     const avgDuration = (parseFloat(duration) / shotCount).toFixed(1);
@@ -3,6 +3,7 @@ import u from "@/utils";
 import { z } from "zod";
 import { success } from "@/lib/responseFormat";
 import { validateFields } from "@/middleware/middleware";
+import { parseShotMeta, ShotMeta } from "@/utils/storyboardStore";
 const router = express.Router();
 interface Storyboard {
   id: number;
@@ -11,6 +12,7 @@ interface Storyboard {
   prompt: string;
   videoPrompt: string;
   duration: number;
+  shotMeta: ShotMeta | null;
 }
 interface StoryboardList {
   id: number;
@@ -26,6 +28,7 @@ interface RawRow {
   prompt: string | null;
   videoPrompt: string | null;
   duration: number | null;
+  shotMeta: string | null;
 }
 
 // 获取视频分镜
@@ -51,6 +54,7 @@ export default router.post(
         "t_assets.videoPrompt",
         "t_assets.prompt",
         "t_assets.duration",
+        "t_assets.shotMeta",
       ]);
 
     // 分组整理
@@ -75,6 +79,7 @@ export default router.post(
           prompt: row.prompt ?? "",
           videoPrompt: row.videoPrompt ?? "",
           duration: row.duration ?? 0,
+          shotMeta: parseShotMeta(row.shotMeta),
         });
       }
     }
@@ -33,16 +33,31 @@ export interface t_assets {
   'scriptId'?: number | null;
   'segmentId'?: number | null;
   'shotIndex'?: number | null;
+  'shotMeta'?: string | null;
+  'stale'?: number | null;
   'state'?: string | null;
   'type'?: string | null;
   'videoPrompt'?: string | null;
 }
 export interface t_chatHistory {
+  'createTime'?: number | null;
   'data'?: string | null;
   'id'?: number;
+  'name'?: string | null;
   'novel'?: string | null;
   'projectId'?: number | null;
+  'summary'?: string | null;
   'type'?: string | null;
+  'updateTime'?: number | null;
+}
+export interface t_chapterSummary {
+  'chapterIndex'?: number | null;
+  'contentHash'?: string | null;
+  'createTime'?: number | null;
+  'id'?: number;
+  'novelId'?: number | null;
+  'projectId'?: number | null;
+  'summary'?: string | null;
 }
 export interface t_config {
   'apiKey'?: string | null;
@@ -70,16 +85,42 @@ export interface t_novel {
   'chapter'?: string | null;
   'chapterData'?: string | null;
   'chapterIndex'?: number | null;
+  'contentHash'?: string | null;
   'createTime'?: number | null;
   'id'?: number;
   'projectId'?: number | null;
   'reel'?: string | null;
 }
+export interface t_novelHistory {
+  'chapter'?: string | null;
+  'chapterData'?: string | null;
+  'chapterIndex'?: number | null;
+  'contentHash'?: string | null;
+  'createTime'?: number | null;
+  'id'?: number;
+  'novelId'?: number | null;
+  'projectId'?: number | null;
+}
 export interface t_outline {
   'data'?: string | null;
   'episode'?: number | null;
   'id'?: number;
   'projectId'?: number | null;
+  'sourceHash'?: string | null;
+  'stale'?: number | null;
+}
+export interface t_outlineVersion {
+  'action'?: string | null;
+  'createTime'?: number | null;
+  'data'?: string | null;
+  'episode'?: number | null;
+  'id'?: number;
+  'outlineId'?: number | null;
+  'projectId'?: number | null;
+  'source'?: string | null;
+  'sourceHash'?: string | null;
+  'stale'?: number | null;
+  'turnId'?: string | null;
 }
 export interface t_project {
   'artStyle'?: string | null;
@@ -87,6 +128,7 @@ export interface t_project {
   'id'?: number | null;
   'intro'?: string | null;
   'name'?: string | null;
+  'toolPermission'?: string | null;
   'type'?: string | null;
   'userId'?: number | null;
   'videoRatio'?: string | null;
@@ -106,6 +148,19 @@ export interface t_script {
   'name'?: string | null;
   'outlineId'?: number | null;
   'projectId'?: number | null;
+  'sourceHash'?: string | null;
+  'stale'?: number | null;
+  'structure'?: string | null;
+}
+export interface t_scriptRevision {
+  'author'?: string | null;
+  'content'?: string | null;
+  'createTime'?: number | null;
+  'id'?: number;
+  'projectId'?: number | null;
+  'restoreFrom'?: number | null;
+  'scriptId'?: number | null;
+  'source'?: string | null;
 }
 export interface t_setting {
   'id'?: number;
@@ -115,21 +170,76 @@ export interface t_setting {
   'tokenKey'?: string | null;
   'userId'?: number | null;
 }
+export interface t_storyboardSegment {
+  'action'?: string | null;
+  'description'?: string | null;
+  'emotion'?: string | null;
+  'id'?: number;
+  'projectId'?: number | null;
+  'scriptId'?: number | null;
+  'segmentIndex'?: number | null;
+}
+export interface t_storyboardShot {
+  'assetsTags'?: string | null;
+  'cells'?: string | null;
+  'fragmentContent'?: string | null;
+  'id'?: number;
+  'projectId'?: number | null;
+  'scriptId'?: number | null;
+  'segmentId'?: number | null;
+  'shotId'?: number | null;
+  'title'?: string | null;
+  'x'?: number | null;
+  'y'?: number | null;
+}
 export interface t_storyline {
   'content'?: string | null;
   'id'?: number;
   'name'?: string | null;
   'novelIds'?: string | null;
   'projectId'?: number | null;
+  'structure'?: string | null;
+  'type'?: string | null;
+}
+export interface t_taskItem {
+  'endTime'?: number | null;
+  'episode'?: number | null;
+  'error'?: string | null;
+  'id'?: number;
+  'outlineId'?: number | null;
+  'scriptId'?: number | null;
+  'startTime'?: number | null;
+  'state'?: string | null;
+  'taskId'?: number | null;
 }
 export interface t_taskList {
   'endTime'?: string | null;
+  'failed'?: number | null;
+  'finished'?: number | null;
   'id'?: number;
   'name'?: string | null;
+  'params'?: string | null;
   'projectName'?: number | null;
   'prompt'?: string | null;
   'startTime'?: string | null;
   'state'?: string | null;
+  'total'?: number | null;
+  'type'?: string | null;
+}
+export interface t_toolTrace {
+  'agent'?: string | null;
+  'args'?: string | null;
+  'duration'?: number | null;
+  'error'?: string | null;
+  'id'?: number;
+  'projectId'?: number | null;
+  'result'?: string | null;
+  'scriptId'?: number | null;
+  'startTime'?: number | null;
+  'threadId'?: number | null;
+  'toolCallId'?: string | null;
+  'toolName'?: string | null;
+  'type'?: string | null;
 }
 export interface t_user {
   'id'?: number;
@@ -173,17 +283,25 @@ export interface DB {
   "_t_video_old_20260131": _t_video_old_20260131;
   "t_aiModelMap": t_aiModelMap;
   "t_assets": t_assets;
+  "t_chapterSummary": t_chapterSummary;
   "t_chatHistory": t_chatHistory;
   "t_config": t_config;
   "t_image": t_image;
   "t_novel": t_novel;
+  "t_novelHistory": t_novelHistory;
   "t_outline": t_outline;
+  "t_outlineVersion": t_outlineVersion;
   "t_project": t_project;
   "t_prompts": t_prompts;
   "t_script": t_script;
+  "t_scriptRevision": t_scriptRevision;
   "t_setting": t_setting;
+  "t_storyboardSegment": t_storyboardSegment;
+  "t_storyboardShot": t_storyboardShot;
   "t_storyline": t_storyline;
+  "t_taskItem": t_taskItem;
   "t_taskList": t_taskList;
+  "t_toolTrace": t_toolTrace;
   "t_user": t_user;
   "t_video": t_video;
   "t_videoConfig": t_videoConfig;
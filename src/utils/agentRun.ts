@@ -0,0 +1,61 @@
+export interface CommittedTool {
+  agent: string;
+  name: string;
+  input: unknown;
+}
+
+/**
+ * Agent 单次调用的运行状态：中止控制器与本次调用中已执行完成的工具，已执行的工具不会因中止而回滚
+ */
+export default class AgentRun {
+  private controller: AbortController | null = null;
+  // 当前调用中已执行完成的工具
+  committed: CommittedTool[] = [];
+
+  /**
+   * 开始新的调用
+   * @returns 传给模型调用的中止信号
+   */
+  start() {
+    this.controller = new AbortController();
+    this.committed = [];
+    return this.controller.signal;
+  }
+
+  /**
+   * 调用结束后置空中止控制器
+   */
+  finish() {
+    this.controller = null;
+  }
+
+  get signal() {
+    return this.controller?.signal;
+  }
+
+  get aborted() {
+    return !!this.controller?.signal.aborted;
+  }
+
+  /**
+   * 中止正在进行的调用
+   * @returns 是否有进行中的调用
+   */
+  abort(): boolean {
+    if (!this.controller || this.controller.signal.aborted) return false;
+    this.controller.abort();
+    return true;
+  }
+
+  record(agent: string, name: string, input: unknown) {
+    this.committed.push({ agent, name, input });
+  }
+
+  /**
+   * 中止时写入历史的回复：只保留已输出的文本并注明已执行的操作
+   */
+  abortedReply(text: string) {
+    const done = this.committed.length ? `已执行的操作：${this.committed.map((t) => t.name).join("、")}` : "尚未执行任何操作";
+    return `${text}\n\n[本次任务已被用户中止，${done}]`.trim();
+  }
+}
@@ -0,0 +1,143 @@
+import { ModelMessage } from "ai";
+import u from "@/utils";
+
+interface AIConfig {
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+  manufacturer?: string;
+}
+
+interface TokenProfile {
+  contextWindow: number; // 上下文窗口（token）
+  cjkRatio: number; // 每个中日韩字符约占的 token 数
+}
+
+// 按模型名前缀匹配，越具体的放越前面
+const TOKEN_PROFILES: Array<[string, TokenProfile]> = [
+  ["deepseek", { contextWindow: 128_000, cjkRatio: 0.6 }],
+  ["doubao", { contextWindow: 256_000, cjkRatio: 0.7 }],
+  ["glm-4-long", { contextWindow: 1_000_000, cjkRatio: 0.7 }],
+  ["glm-4.6", { contextWindow: 200_000, cjkRatio: 0.7 }],
+  ["glm-4.7", { contextWindow: 200_000, cjkRatio: 0.7 }],
+  ["glm", { contextWindow: 128_000, cjkRatio: 0.7 }],
+  ["qwen2.5-14b-instruct-1m", { contextWindow: 1_000_000, cjkRatio: 0.7 }],
+  ["qwen-max", { contextWindow: 32_000, cjkRatio: 0.7 }],
+  ["qwen", { contextWindow: 128_000, cjkRatio: 0.7 }],
+  ["gpt-4o", { contextWindow: 128_000, cjkRatio: 0.9 }],
+  ["gpt-4.1", { contextWindow: 1_000_000, cjkRatio: 0.9 }],
+  ["gpt-5", { contextWindow: 400_000, cjkRatio: 0.9 }],
+  ["gemini-1.5-pro", { contextWindow: 2_000_000, cjkRatio: 0.8 }],
+  ["gemini", { contextWindow: 1_000_000, cjkRatio: 0.8 }],
+  ["claude", { contextWindow: 200_000, cjkRatio: 1.2 }],
+  ["grok-3", { contextWindow: 131_000, cjkRatio: 1 }],
+  ["grok", { contextWindow: 256_000, cjkRatio: 1 }],
+];
+const DEFAULT_PROFILE: TokenProfile = { contextWindow: 32_000, cjkRatio: 1 };
+
+// 历史记录超过上下文窗口的该比例时触发压缩，但不超过 MAX_HISTORY_TOKENS，避免长会话费用过高
+const COMPACT_RATIO = 0.5;
+const MAX_HISTORY_TOKENS = 64_000;
+// 压缩时原样保留的最近轮数（以用户消息为一轮的起点）
+const KEEP_TURNS = 3;
+// 生成摘要时单条工具结果保留的最大字符数
+const MAX_TOOL_RESULT_CHARS = 500;
+
+const SUMMARY_PROMPT = `你负责压缩 AI 助手与用户的对话记录，生成供助手后续参考的对话记忆。
+要求：
+1. 合并【已有记忆】与【新增对话】，输出一份完整的新记忆，不要遗漏已有记忆中仍然有效的内容
+2. 保留：用户的目标与偏好、已确认的决定、已完成的操作（保存/修改了哪些故事线、大纲、分镜等，写明ID、集数、章节号）、尚未完成的事项
+3. 删除：寒暄、重复内容、已被推翻的方案、工具返回的原文正文
+4. 使用条目式中文，不超过1500字，只输出记忆正文`;
+
+function getProfile(model?: string): TokenProfile {
+  if (!model) return DEFAULT_PROFILE;
+  const name = model.toLowerCase();
+  return TOKEN_PROFILES.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_PROFILE;
+}
+
+/**
+ * 估算文本的 token 数：中日韩字符按模型的分词比例计算，其余字符约 4 个字符 1 个 token
+ */
+export function estimateTokens(text: string, model?: string) {
+  const { cjkRatio } = getProfile(model);
+  const cjk = text.match(/[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g)?.length ?? 0;
+  return Math.ceil(cjk * cjkRatio + (text.length - cjk) / 4);
+}
+
+function messageToText(message: ModelMessage, maxToolChars = Infinity): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => {
+      switch (part.type) {
+        case "text":
+        case "reasoning":
+          return part.text;
+        case "tool-call":
+          return `[调用工具 ${part.toolName}] ${JSON.stringify(part.input)}`;
+        case "tool-result": {
+          const output = "value" in part.output ? part.output.value : "";
+          const text = typeof output === "string" ? output : JSON.stringify(output);
+          return `[工具 ${part.toolName} 返回] ${text.length > maxToolChars ? `${text.slice(0, maxToolChars)}…` : text}`;
+        }
+        default:
+          return "";
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * 估算对话记录的 token 数
+ */
+export function countHistoryTokens(history: ModelMessage[], model?: string) {
+  return history.reduce((sum, m) => sum + estimateTokens(messageToText(m), model) + 4, 0);
+}
+
+/**
+ * 按 token 预算压缩对话记录：超过阈值时把较早的轮次连同已有记忆总结为新的记忆，最近几轮原样保留
+ * @param history 完整对话记录
+ * @param memory 之前压缩得到的记忆
+ * @param config 模型配置，用于估算 token 并生成摘要
+ * @param abortSignal 中止信号，触发后取消摘要请求
+ */
+export default async function compactHistory(history: ModelMessage[], memory: string, config: AIConfig, abortSignal?: AbortSignal) {
+  const { contextWindow } = getProfile(config.model);
+  const budget = Math.min(contextWindow * COMPACT_RATIO, MAX_HISTORY_TOKENS);
+  const tokens = countHistoryTokens(history, config.model) + estimateTokens(memory, config.model);
+  if (tokens <= budget) return { history, memory, compacted: false, tokens };
+
+  // 只在用户消息处切分，保证工具调用与结果成对保留
+  const turnStarts = history.map((m, idx) => (m.role === "user" ? idx : -1)).filter((idx) => idx >= 0);
+  let keepTurns = Math.min(KEEP_TURNS, turnStarts.length);
+  while (keepTurns > 1 && countHistoryTokens(history.slice(turnStarts[turnStarts.length - keepTurns]), config.model) > budget / 2) keepTurns--;
+  const cut = keepTurns ? turnStarts[turnStarts.length - keepTurns] : history.length;
+  if (cut <= 0) return { history, memory, compacted: false, tokens };
+
+  let transcript = history
+    .slice(0, cut)
+    .map((m) => `${m.role}: ${messageToText(m, MAX_TOOL_RESULT_CHARS)}`)
+    .join("\n\n");
+  // 摘要输入本身也不能超出上下文，超出时保留较新的部分
+  const maxChars = Math.floor(contextWindow * COMPACT_RATIO);
+  if (transcript.length > maxChars) transcript = transcript.slice(-maxChars);
+
+  const result = await u.ai.text.invoke(
+    {
+      system: SUMMARY_PROMPT,
+      prompt: `【已有记忆】\n${memory || "无"}\n\n【新增对话】\n${transcript}`,
+      abortSignal,
+    },
+    config,
+  );
+  const newMemory = result.text?.trim();
+  if (!newMemory) return { history, memory, compacted: false, tokens };
+
+  const kept = history.slice(cut);
+  return {
+    history: kept,
+    memory: newMemory,
+    compacted: true,
+    tokens: countHistoryTokens(kept, config.model) + estimateTokens(newMemory, config.model),
+  };
+}
@@ -13,6 +13,7 @@ interface AIInput<T extends Record<string, z.ZodTypeAny> | undefined = undefined
   output?: T;
   prompt?: string;
   messages?: Array<ModelMessage>;
+  abortSignal?: AbortSignal; // 中止信号，触发后取消请求及后续工具调用
 }
 
 interface AIConfig {
@@ -22,15 +23,23 @@ interface AIConfig {
   manufacturer?: string;
 }
 
+const findOwned = ({ model, manufacturer }: AIConfig) => {
+  if (manufacturer == "other") return modelList.find((m) => m.manufacturer === manufacturer);
+  return modelList.find((m) => m.model === model);
+};
+
+/**
+ * 模型是否支持图片输入，自定义厂商（other）无法判断，视为支持
+ */
+export const supportsImage = (config: AIConfig = {}) => {
+  if (config.manufacturer == "other") return true;
+  return !!findOwned(config)?.image;
+};
+
 const buildOptions = async (input: AIInput<any>, config: AIConfig = {}) => {
   if (!config || !config?.model || !config?.apiKey || !config?.manufacturer) throw new Error("请检查模型配置是否正确");
   const { model, apiKey, baseURL, manufacturer } = { ...config };
-  let owned;
-  if (manufacturer == "other") {
-    owned = modelList.find((m) => m.manufacturer === manufacturer);
-  } else {
-    owned = modelList.find((m) => m.model === model);
-  }
+  const owned = findOwned(config);
   if (!owned) throw new Error("不支持的模型或厂商");
 
   const modelInstance = owned.instance({ apiKey, baseURL: baseURL!, name: "xixixi" });
@@ -62,6 +71,7 @@ const buildOptions = async (input: AIInput<any>, config: AIConfig = {}) => {
       ...(input.tools && owned.tool && { tools: input.tools }),
       ...(maxStep && { stopWhen: stepCountIs(maxStep) }),
       ...(output && { output }),
+      ...(input.abortSignal && { abortSignal: input.abortSignal }),
     },
     responseFormat: owned.responseFormat,
   };
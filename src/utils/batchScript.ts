@@ -0,0 +1,163 @@
+import u from "@/utils";
+import { generateScript, mergeNovelText } from "@/utils/generateScript";
+import { recordScriptSource } from "@/utils/sourceHash";
+import { AI_AUTHOR, saveScriptContent } from "@/utils/scriptRevision";
+
+export const BATCH_SCRIPT_TASK = "batchScript";
+
+// 默认同时生成的集数
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+export interface BatchScriptParams {
+  projectId: number;
+  startEpisode: number;
+  endEpisode: number;
+  concurrency: number;
+}
+
+// 进行中的任务，记录是否已请求取消
+const running = new Map<number, { cancelled: boolean }>();
+
+/**
+ * 生成单集剧本并保存
+ */
+async function generateEpisodeScript(outlineId: number, scriptId: number) {
+  const outline = await u.db("t_outline").where("id", outlineId).first();
+  if (!outline) throw new Error("大纲不存在");
+  const parameter = JSON.parse(outline.data!);
+
+  const novelData = await u.db("t_novel").whereIn("chapterIndex", parameter.chapterRange).where("projectId", outline.projectId).select("*");
+  if (novelData.length == 0) throw new Error("原文为空");
+
+  const content = await generateScript(parameter, mergeNovelText(novelData));
+  if (!content) throw new Error("生成剧本失败");
+
+  await saveScriptContent(scriptId, content, { source: "generate", author: AI_AUTHOR });
+  await recordScriptSource(scriptId);
+}
+
+async function updateProgress(taskId: number) {
+  const items = await u.db("t_taskItem").where("taskId", taskId).select("state");
+  await u
+    .db("t_taskList")
+    .where("id", taskId)
+    .update({
+      total: items.length,
+      finished: items.filter((i) => i.state === "生成成功").length,
+      failed: items.filter((i) => i.state === "生成失败").length,
+    });
+}
+
+/**
+ * 创建批量生成任务：为范围内每一集登记一条子任务
+ */
+export async function createBatchScriptTask(params: BatchScriptParams) {
+  const { projectId, startEpisode, endEpisode } = params;
+  const concurrency = Math.min(Math.max(params.concurrency || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+
+  const outlines = await u
+    .db("t_outline")
+    .where("projectId", projectId)
+    .whereBetween("episode", [startEpisode, endEpisode])
+    .select("id", "episode")
+    .orderBy("episode", "asc");
+  if (!outlines.length) throw new Error("指定范围内没有大纲");
+
+  const outlineIds = outlines.map((o) => o.id!);
+  const scripts = await u.db("t_script").whereIn("outlineId", outlineIds).select("id", "outlineId");
+  const scriptMap = new Map(scripts.map((s) => [s.outlineId, s.id]));
+
+  const [taskId] = await u.db("t_taskList").insert({
+    projectName: projectId,
+    name: `批量生成剧本（第${startEpisode}-${endEpisode}集）`,
+    type: BATCH_SCRIPT_TASK,
+    params: JSON.stringify({ ...params, concurrency }),
+    state: "进行中",
+    startTime: String(Date.now()),
+  });
+
+  for (const outline of outlines) {
+    const scriptId = scriptMap.get(outline.id);
+    await u.db("t_taskItem").insert({
+      taskId,
+      outlineId: outline.id,
+      scriptId: scriptId ?? null,
+      episode: outline.episode,
+      state: scriptId ? "等待中" : "生成失败",
+      error: scriptId ? null : "剧本记录不存在",
+    });
+  }
+  await updateProgress(taskId);
+  return taskId;
+}
+
+/**
+ * 执行批量生成任务，已成功的集不会重新生成，可用于崩溃后续跑或重试失败的集
+ */
+export async function runBatchScriptTask(taskId: number, retryFailed = false) {
+  if (running.has(taskId)) return;
+  const status = { cancelled: false };
+  running.set(taskId, status);
+
+  const task = await u.db("t_taskList").where("id", taskId).first();
+  if (!task || task.type !== BATCH_SCRIPT_TASK) {
+    running.delete(taskId);
+    throw new Error("任务不存在");
+  }
+  const { concurrency = DEFAULT_CONCURRENCY }: Partial<BatchScriptParams> = JSON.parse(task.params || "{}");
+
+  // 中断时处于生成中的子任务需要重新生成
+  const retryStates = retryFailed ? ["等待中", "生成中", "生成失败"] : ["等待中", "生成中"];
+  const queue = await u.db("t_taskItem").where("taskId", taskId).whereIn("state", retryStates).whereNotNull("scriptId").orderBy("episode", "asc");
+
+  const worker = async () => {
+    while (queue.length && !status.cancelled) {
+      const item = queue.shift()!;
+      await u.db("t_taskItem").where("id", item.id!).update({ state: "生成中", error: null, startTime: Date.now() });
+      try {
+        await generateEpisodeScript(item.outlineId!, item.scriptId!);
+        await u.db("t_taskItem").where("id", item.id!).update({ state: "生成成功", endTime: Date.now() });
+      } catch (err) {
+        await u
+          .db("t_taskItem")
+          .where("id", item.id!)
+          .update({ state: "生成失败", error: u.error(err).message, endTime: Date.now() });
+      }
+      await updateProgress(taskId);
+    }
+  };
+
+  try {
+    await u.db("t_taskList").where("id", taskId).update({ state: "进行中", endTime: null });
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  } finally {
+    running.delete(taskId);
+    const items = await u.db("t_taskItem").where("taskId", taskId).select("state");
+    const unfinished = items.some((i) => i.state === "等待中");
+    const state = status.cancelled && unfinished ? "已取消" : items.some((i) => i.state === "生成失败") ? "部分失败" : "已完成";
+    await u.db("t_taskList").where("id", taskId).update({ state, endTime: String(Date.now()) });
+    await updateProgress(taskId);
+  }
+}
+
+/**
+ * 取消任务：正在生成的集会完成，其余集保持等待状态，之后可继续执行
+ */
+export function cancelBatchScriptTask(taskId: number) {
+  const status = running.get(taskId);
+  if (!status) return false;
+  status.cancelled = true;
+  return true;
+}
+
+/**
+ * 服务启动时继续执行上次中断（仍处于进行中）的批量任务
+ */
+export async function resumeBatchScriptTasks() {
+  const tasks = await u.db("t_taskList").where({ type: BATCH_SCRIPT_TASK, state: "进行中" }).select("id");
+  for (const task of tasks) {
+    console.log(`[批量生成剧本] 继续执行中断的任务: ${task.id}`);
+    runBatchScriptTask(task.id!).catch((err) => console.error("[批量生成剧本] 任务执行失败:", err));
+  }
+}
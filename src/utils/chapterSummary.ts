@@ -0,0 +1,122 @@
+import u from "@/utils";
+import { getChapterHashes } from "@/utils/sourceHash";
+
+export interface ChapterSummary {
+  chapterIndex: number;
+  reel: string;
+  chapter: string;
+  summary: string;
+}
+
+const SUMMARY_PROMPT = `你是小说编辑，负责为单个章节撰写剧情摘要，供编剧在不阅读原文的情况下规划故事线。
+要求：
+1. 150-300字，按原文叙事顺序概括本章发生的主要事件
+2. 写明出场的关键人物、地点与重要道具，保留原文名称
+3. 标出本章的冲突、转折或伏笔
+4. 只输出摘要正文，不要标题、序号或任何解释`;
+
+// 同时生成摘要的章节数
+const CONCURRENCY = 3;
+
+async function generateSummary(chapter: string, chapterData: string) {
+  const promptConfig = await u.getPromptAi("outlineScriptAgent");
+  const result = await u.ai.text.invoke(
+    {
+      system: SUMMARY_PROMPT,
+      prompt: `【${chapter}】\n${chapterData}`,
+    },
+    promptConfig,
+  );
+  return result.text?.trim() ?? "";
+}
+
+/**
+ * 获取章节摘要，缺失或原文已修改（哈希不一致）的章节会调用大纲模型重新生成并缓存，生成失败的章节摘要为空
+ * @param projectId 项目ID
+ * @param chapterIndexes 章节号，不传则为全部章节
+ * @param onGenerate 每生成一章摘要时回调，用于输出进度
+ */
+export default async function getChapterSummaries(
+  projectId: number,
+  chapterIndexes?: number[],
+  onGenerate?: (chapterIndex: number, done: number, total: number) => void,
+): Promise<ChapterSummary[]> {
+  const query = u.db("t_novel").where("projectId", projectId).select("id", "chapterIndex", "reel", "chapter", "chapterData", "contentHash").orderBy("chapterIndex", "asc");
+  if (chapterIndexes?.length) query.whereIn("chapterIndex", chapterIndexes);
+  const novels = await query;
+  if (!novels.length) return [];
+
+  const hashes = await getChapterHashes(
+    projectId,
+    novels.map((n) => n.chapterIndex!),
+  );
+  const cached = await u
+    .db("t_chapterSummary")
+    .whereIn(
+      "novelId",
+      novels.map((n) => n.id!),
+    )
+    .select("novelId", "contentHash", "summary");
+  const cacheMap = new Map(cached.map((c) => [c.novelId!, c]));
+
+  const summaries = new Map<number, string>();
+  const pending = novels.filter((n) => {
+    const hash = hashes[n.chapterIndex!];
+    const hit = cacheMap.get(n.id!);
+    if (hit && hit.contentHash === hash && hit.summary) {
+      summaries.set(n.id!, hit.summary);
+      return false;
+    }
+    n.contentHash = hash;
+    return true;
+  });
+
+  let done = 0;
+  for (let i = 0; i < pending.length; i += CONCURRENCY) {
+    await Promise.all(
+      pending.slice(i, i + CONCURRENCY).map(async (n) => {
+        // 单章失败不影响其余章节
+        let summary: string;
+        try {
+          summary = await generateSummary(n.chapter ?? "", n.chapterData ?? "");
+        } catch (err) {
+          console.error(`[章节摘要] 第${n.chapterIndex}章生成失败:`, u.error(err).message);
+          return;
+        }
+        if (!summary) return;
+        await u.db("t_chapterSummary").where("novelId", n.id).del();
+        await u.db("t_chapterSummary").insert({
+          novelId: n.id,
+          projectId,
+          chapterIndex: n.chapterIndex,
+          contentHash: n.contentHash,
+          summary,
+          createTime: Date.now(),
+        });
+        summaries.set(n.id!, summary);
+        onGenerate?.(n.chapterIndex!, ++done, pending.length);
+      }),
+    );
+  }
+
+  return novels.map((n) => ({
+    chapterIndex: n.chapterIndex!,
+    reel: n.reel ?? "",
+    chapter: n.chapter ?? "",
+    summary: summaries.get(n.id!) ?? "",
+  }));
+}
+
+/**
+ * 统计项目中摘要仍有效的章节数
+ */
+export async function countCachedSummaries(projectId: number) {
+  const result = await u
+    .db("t_chapterSummary")
+    .join("t_novel", "t_novel.id", "t_chapterSummary.novelId")
+    .where("t_chapterSummary.projectId", projectId)
+    .whereRaw("t_novel.contentHash = t_chapterSummary.contentHash")
+    .count("t_chapterSummary.id as count")
+    .first<{ count: number | string }>();
+  return Number(result?.count ?? 0);
+}
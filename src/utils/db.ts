@@ -5,6 +5,7 @@ import path from "path";
 import knex from "knex";
 import initDB from "@/lib/initDB";
 import fixDB from "@/lib/fixDB";
+import initFTS from "@/lib/initFTS";
 import type { DB } from "@/types/database";
 import crypto from "crypto";
 
@@ -43,6 +44,7 @@ const db = knex({
 (async () => {
   await initDB(db);
   await fixDB(db);
+  await initFTS(db);
   if (process.env.NODE_ENV == "dev") initKnexType(db);
 })();
 
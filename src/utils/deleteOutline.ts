@@ -1,6 +1,8 @@
 import u from "@/utils";
+import { snapshotOutlines, VersionMeta } from "@/utils/outlineVersion";
+import { deleteOutlineScripts } from "@/utils/deleteScript";
 
-export default async function deleteOutline(id: number, projectId: number) {
+export default async function deleteOutline(id: number, projectId: number, meta: VersionMeta = { source: "manual" }) {
   const targetOutlineData = await u.db("t_outline").where("id", id).select("data").first();
   if (!targetOutlineData) throw new Error("大纲不存在");
 
@@ -22,10 +24,11 @@ export default async function deleteOutline(id: number, projectId: number) {
   const diffAssetsNames = targetNames.filter((item) => !allOutlineData.includes(item));
 
   if (diffAssetsNames.length) {
+    await snapshotOutlines([id], "delete", meta);
     await u.db("t_outline").where("id", id).del();
 
     await u.db("t_assets").where("projectId", projectId).whereIn("name", diffAssetsNames).del();
 
-    await u.db("t_script").where("outlineId", id).del();
+    await deleteOutlineScripts([id]);
   }
 }
@@ -0,0 +1,25 @@
+import type { Knex } from "knex";
+import { db } from "@/utils/db";
+
+/**
+ * 删除剧本及其修订记录、已保存的分镜片段与分镜，所有删除剧本的地方都应经过这里
+ */
+export async function deleteScripts(scriptIds: number[], trx: Knex = db) {
+  if (!scriptIds.length) return 0;
+  await trx("t_storyboardSegment").whereIn("scriptId", scriptIds).del();
+  await trx("t_storyboardShot").whereIn("scriptId", scriptIds).del();
+  await trx("t_scriptRevision").whereIn("scriptId", scriptIds).del();
+  return trx("t_script").whereIn("id", scriptIds).del();
+}
+
+/**
+ * 删除大纲对应的剧本
+ */
+export async function deleteOutlineScripts(outlineIds: number[], trx: Knex = db) {
+  if (!outlineIds.length) return 0;
+  const scripts: Array<{ id: number }> = await trx("t_script").whereIn("outlineId", outlineIds).select("id");
+  return deleteScripts(
+    scripts.map((s) => s.id),
+    trx,
+  );
+}
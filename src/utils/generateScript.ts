@@ -1,4 +1,6 @@
 import u from "@/utils";
+import type { ModelMessage } from "ai";
+import { formatLintFeedback, lintScript, LintIssue } from "@/utils/scriptLint";
 
 interface Scene {
   name: string;
@@ -91,12 +93,27 @@ ${quotesStr}
 `;
 }
 
+interface NovelChapter {
+  chapter?: string | null;
+  chapterData?: string | null;
+}
+
 /**
- * 生成单集剧本
- * @param episode 已解析的Episode对象
- * @param novelData 原文内容
+ * 合并章节原文，作为剧本生成的原文参考
  */
-export async function generateScript(episode: Episode, novelData: string): Promise<string> {
+export function mergeNovelText(novelData: NovelChapter[]): string {
+  if (!Array.isArray(novelData)) return "";
+  return novelData
+    .map((chap) => {
+      return `${(chap.chapter ?? "").trim()}\n\n${(chap.chapterData ?? "").trim().replace(/\r?\n/g, "\n")}\n`;
+    })
+    .join("\n");
+}
+
+/**
+ * 构建单集剧本的生成请求（提示词与模型配置）
+ */
+async function buildScriptRequest(episode: Episode, novelData: string) {
   const episodePrompt = formatEpisodePrompt(episode);
 
   const userPrompt = `请根据以下结构化大纲生成剧本。
@@ -130,15 +147,58 @@ ${novelData}`;
   const promptConfig = await u.getPromptAi("generateScript");
   const mainPrompts = prompts?.customValue || prompts?.defaultValue || "不论用户说什么，请直接输出AI配置异常";
 
-  const result = await u.ai.text.invoke(
-    {
-      messages: [
-        { role: "system", content: mainPrompts },
-        { role: "user", content: userPrompt },
-      ],
-    },
-    promptConfig,
-  );
+  const messages: ModelMessage[] = [
+    { role: "system", content: mainPrompts },
+    { role: "user", content: userPrompt },
+  ];
+  return { messages, promptConfig };
+}
+
+/**
+ * 生成单集剧本
+ * @param episode 已解析的Episode对象
+ * @param novelData 原文内容
+ */
+export async function generateScript(episode: Episode, novelData: string): Promise<string> {
+  const { messages, promptConfig } = await buildScriptRequest(episode, novelData);
+  const result = await u.ai.text.invoke({ messages }, promptConfig);
 
   return result.text ?? "";
 }
+
+/**
+ * 生成单集剧本并按大纲校验，未通过时把问题反馈给模型重新生成
+ * @param maxRepair 最多修正次数
+ * @returns 错误最少的一版剧本及其剩余问题
+ */
+export async function generateScriptWithRepair(episode: Episode, novelData: string, maxRepair: number) {
+  const { messages, promptConfig } = await buildScriptRequest(episode, novelData);
+  const countErrors = (issues: LintIssue[]) => issues.filter((i) => i.level === "error").length;
+
+  let best: { content: string; issues: LintIssue[] } | null = null;
+  let attempts = 0;
+  while (attempts <= maxRepair) {
+    attempts++;
+    const result = await u.ai.text.invoke({ messages }, promptConfig);
+    const content = result.text ?? "";
+    const issues = lintScript(content, episode);
+    if (content && (!best || countErrors(issues) < countErrors(best.issues))) best = { content, issues };
+    if (!countErrors(issues)) break;
+
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: `剧本未满足以下要求：\n${formatLintFeedback(issues)}\n\n请在保持剧情不变的前提下修正上述问题，重新输出完整剧本。` },
+    );
+  }
+
+  return { content: best?.content ?? "", issues: best?.issues ?? [], attempts };
+}
+
+/**
+ * 流式生成单集剧本
+ * @param abortSignal 中止信号，触发后停止生成
+ */
+export async function streamScript(episode: Episode, novelData: string, abortSignal?: AbortSignal) {
+  const { messages, promptConfig } = await buildScriptRequest(episode, novelData);
+  return u.ai.text.stream({ messages, abortSignal }, promptConfig);
+}
@@ -0,0 +1,48 @@
+import chardet from "chardet";
+import iconv from "iconv-lite";
+
+// chardet 识别结果到 iconv-lite 编码名的映射
+const ENCODING_ALIAS: Record<string, string> = {
+  GB18030: "gb18030",
+  GBK: "gb18030",
+  GB2312: "gb18030",
+  Big5: "big5",
+  "UTF-16LE": "utf-16le",
+  "UTF-16BE": "utf-16be",
+  Shift_JIS: "shift_jis",
+  "EUC-JP": "euc-jp",
+  "EUC-KR": "euc-kr",
+  "ISO-8859-1": "gb18030", // 中文文本常被误判为 Latin-1，按 GB18030 兜底
+};
+
+function isValidUtf8(buffer: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 识别文本编码并转换为 UTF-8 字符串
+ * @param buffer 原始文件内容
+ * @returns 解码后的文本与识别出的编码
+ */
+export default function decodeText(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString("utf8"), encoding: "utf-8" };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: iconv.decode(buffer.subarray(2), "utf-16le"), encoding: "utf-16le" };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: iconv.decode(buffer.subarray(2), "utf-16be"), encoding: "utf-16be" };
+  }
+  if (isValidUtf8(buffer)) return { text: buffer.toString("utf8"), encoding: "utf-8" };
+
+  // 大文件只取前 1MB 做识别，足够判断 GBK/Big5
+  const detected = chardet.detect(buffer.subarray(0, 1024 * 1024)) ?? "GB18030";
+  const encoding = ENCODING_ALIAS[detected] ?? (iconv.encodingExists(detected) ? detected.toLowerCase() : "gb18030");
+  return { text: iconv.decode(buffer, encoding), encoding };
+}
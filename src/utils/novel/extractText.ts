@@ -0,0 +1,112 @@
+import JSZip from "jszip";
+import path from "path";
+import decodeText from "./decodeText";
+
+export type NovelFileType = "txt" | "epub" | "docx";
+
+/**
+ * 根据文件名判断小说文件类型
+ */
+export function getNovelFileType(fileName: string): NovelFileType {
+  const ext = path.extname(fileName).toLowerCase().replace(".", "");
+  if (ext === "txt" || ext === "epub" || ext === "docx") return ext;
+  throw new Error(`不支持的文件类型: ${ext || fileName}，仅支持 txt/epub/docx`);
+}
+
+/**
+ * 解码 HTML/XML 实体
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (all, code: string) => {
+    if (code[0] === "#") {
+      const num = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(num) ? all : String.fromCodePoint(num);
+    }
+    return named[code.toLowerCase()] ?? all;
+  });
+}
+
+/**
+ * 将 XHTML 转换为纯文本，块级元素转为换行
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|h[1-6]|li|section|article|tr|blockquote)>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n");
+}
+
+/**
+ * 读取 EPUB 文件：按 OPF spine 顺序拼接所有正文文档
+ */
+async function extractEpub(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const opfPath = container?.match(/full-path="([^"]+)"/)?.[1];
+  if (!opfPath) throw new Error("EPUB 文件缺少 container.xml 或 rootfile");
+
+  const opf = await zip.file(opfPath)?.async("string");
+  if (!opf) throw new Error(`EPUB 文件缺少 ${opfPath}`);
+  const opfDir = path.posix.dirname(opfPath);
+
+  const manifest = new Map<string, string>();
+  for (const item of opf.matchAll(/<item\b[^>]*>/gi)) {
+    const id = item[0].match(/\bid="([^"]+)"/)?.[1];
+    const href = item[0].match(/\bhref="([^"]+)"/)?.[1];
+    if (id && href) manifest.set(id, decodeURIComponent(href));
+  }
+  const spine = Array.from(opf.matchAll(/<itemref\b[^>]*idref="([^"]+)"/gi), (m) => m[1]);
+
+  const parts: string[] = [];
+  for (const idref of spine) {
+    const href = manifest.get(idref);
+    if (!href) continue;
+    const filePath = opfDir === "." ? href : path.posix.join(opfDir, href);
+    const html = await zip.file(filePath)?.async("string");
+    if (html) parts.push(htmlToText(html));
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * 读取 DOCX 文件：按段落提取 word/document.xml 中的文本
+ */
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file("word/document.xml")?.async("string");
+  if (!xml) throw new Error("DOCX 文件缺少 word/document.xml");
+
+  const paragraphs = Array.from(xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g), (m) =>
+    decodeEntities(
+      m[0]
+        .replace(/<w:tab\/>/g, "\t")
+        .replace(/<w:br\/>/g, "\n")
+        .replace(/<(?!\/?w:t[\s>])[^>]+>/g, "")
+        .replace(/<\/?w:t[^>]*>/g, ""),
+    ),
+  );
+  return paragraphs.join("\n");
+}
+
+/**
+ * 提取小说文件的纯文本内容
+ * @param fileName 文件名（用于判断类型）
+ * @param buffer 文件内容
+ * @returns 文本内容与原始编码（TXT 自动识别 GBK/Big5 等编码，EPUB/DOCX 固定为 UTF-8）
+ */
+export default async function extractNovelText(fileName: string, buffer: Buffer): Promise<{ text: string; encoding: string }> {
+  const type = getNovelFileType(fileName);
+  let text: string;
+  let encoding = "utf-8";
+  if (type === "epub") text = await extractEpub(buffer);
+  else if (type === "docx") text = await extractDocx(buffer);
+  else ({ text, encoding } = decodeText(buffer));
+  return { text: text.replace(/\r\n?/g, "\n"), encoding };
+}
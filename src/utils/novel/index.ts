@@ -0,0 +1,41 @@
+import extractNovelText from "./extractText";
+import splitChapters, { SplitChapter, SplitOptions, SplitResult } from "./splitChapters";
+import normalizeText, { NormalizeOptions, NormalizeReport } from "./normalizeText";
+
+export interface ParsedNovel extends SplitResult {
+  encoding: string;
+  totalChars: number;
+  chapters: Array<SplitChapter & { report?: NormalizeReport }>;
+}
+
+/**
+ * 解析上传的小说文件（base64）：识别编码、切分章节，并逐章规范化文本
+ * @param fileName 文件名，用于判断 txt/epub/docx
+ * @param base64Data 文件内容，可带 data URL 前缀
+ * @param options 章节切分选项；normalize 为 false 时跳过文本规范化
+ */
+export async function parseNovelFile(
+  fileName: string,
+  base64Data: string,
+  options: SplitOptions & { normalize?: NormalizeOptions | false } = {},
+): Promise<ParsedNovel> {
+  const { normalize = {}, ...splitOptions } = options;
+  const buffer = Buffer.from(base64Data.replace(/^data:[^;]*;base64,/, ""), "base64");
+  if (!buffer.length) throw new Error("文件内容为空");
+  const { text, encoding } = await extractNovelText(fileName, buffer);
+  const result = splitChapters(text, splitOptions);
+
+  const chapters: ParsedNovel["chapters"] = result.chapters.map((c) => {
+    if (normalize === false) return c;
+    const { text: chapterData, report } = normalizeText(c.chapterData, normalize);
+    // 标题只做繁简转换，保留原有空格与标点
+    const chapter = normalize.convert
+      ? normalizeText(c.chapter, { convert: normalize.convert, punctuation: false, whitespace: false, useDefaultJunkPatterns: false }).text
+      : c.chapter;
+    return { ...c, chapter, chapterData, report };
+  });
+  const totalChars = chapters.reduce((sum, c) => sum + c.chapterData.length, 0);
+  return { ...result, chapters, encoding, totalChars };
+}
+
+export { extractNovelText, splitChapters, normalizeText };
@@ -0,0 +1,165 @@
+import * as OpenCC from "opencc-js";
+import { z } from "zod";
+
+export interface NormalizeOptions {
+  convert?: "t2s" | "s2t"; // 繁简转换：繁→简 / 简→繁
+  punctuation?: boolean; // 标点全半角规范化，默认开启
+  whitespace?: boolean; // 空白与空行规范化，默认开启
+  junkPatterns?: string[]; // 额外的垃圾行正则
+  useDefaultJunkPatterns?: boolean; // 是否启用内置垃圾行规则，默认开启
+}
+
+export interface NormalizeReport {
+  converted: number; // 繁简转换的字符数
+  punctuation: number; // 规范化的标点数
+  whitespace: number; // 调整了空白的行数
+  junkLines: string[]; // 被移除的垃圾行
+}
+
+// 自定义垃圾行正则的最大长度
+const JUNK_PATTERN_MAX_LENGTH = 200;
+// 含量词或分支的分组再加量词（如 (a+)+、(a|aa)*）容易灾难性回溯，拖死单线程服务
+const NESTED_QUANTIFIER = /\([^()]*[+*}|][^()]*\)\s*[+*{]/;
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const junkPatternSchema = z
+  .string()
+  .min(1)
+  .max(JUNK_PATTERN_MAX_LENGTH)
+  .refine(isValidPattern, "不是有效的正则表达式")
+  .refine((p) => !NESTED_QUANTIFIER.test(p), "不支持对含量词或分支的分组再加量词");
+
+export const normalizeOptionsSchema = z.object({
+  convert: z.enum(["t2s", "s2t"]).optional(),
+  punctuation: z.boolean().optional(),
+  whitespace: z.boolean().optional(),
+  junkPatterns: z.array(junkPatternSchema).max(50).optional(),
+  useDefaultJunkPatterns: z.boolean().optional(),
+});
+
+// 内置垃圾行规则：只作用于较短的独立行，避免误删正文
+export const DEFAULT_JUNK_PATTERNS = [
+  "求(月票|推荐票|推荐|收藏|订阅|打赏|票票|保底)",
+  "(本书|本章)(首发|来自)",
+  "(最新章节|全文阅读|无弹窗|手机阅读|手机用户请)",
+  "(笔趣阁|顶点小说|起点中文网|纵横中文网|请记住本站|天才一秒记住)",
+  "(https?://|www\\.)\\S+",
+  "^[（(]?本章完[）)]?$",
+  "^[-=*_~—]{3,}$",
+];
+const JUNK_LINE_MAX_LENGTH = 80;
+
+const CJK = "\\u3400-\\u9fff\\uf900-\\ufaff";
+const HALF_TO_FULL: Record<string, string> = { ",": "，", "?": "？", "!": "！", ":": "：", ";": "；" };
+const HAS_CJK = new RegExp(`[${CJK}]`);
+const HALF_PUNCT_NEAR_CJK = new RegExp(`(?<=[${CJK}])[,?!:;]|[,?!:;](?=[${CJK}])`, "g");
+const PERIOD_AFTER_CJK = new RegExp(`(?<=[${CJK}])\\.(?!\\d)`, "g");
+const PARENS_WITH_CJK = new RegExp(`\\(([^()]*[${CJK}][^()]*)\\)`, "g");
+const SPACE_BETWEEN_CJK = new RegExp(`(?<=[${CJK}])[ \\t\\u3000]+(?=[${CJK}])`, "g");
+
+const converters: Partial<Record<"t2s" | "s2t", (text: string) => string>> = {};
+function getConverter(type: "t2s" | "s2t") {
+  if (!converters[type]) {
+    converters[type] = type === "t2s" ? OpenCC.Converter({ from: "t", to: "cn" }) : OpenCC.Converter({ from: "cn", to: "t" });
+  }
+  return converters[type]!;
+}
+
+function countDiff(a: string, b: string): number {
+  if (a.length !== b.length) return Math.abs(a.length - b.length);
+  let count = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) count++;
+  return count;
+}
+
+/**
+ * 规范化单行中的标点：全角字母数字转半角，中文语境下半角标点转全角
+ */
+function normalizeLinePunctuation(line: string): { line: string; count: number } {
+  let count = 0;
+  let result = line.replace(/[Ａ-Ｚａ-ｚ０-９]/g, (c) => {
+    count++;
+    return String.fromCharCode(c.charCodeAt(0) - 0xfee0);
+  });
+  if (!HAS_CJK.test(result)) return { line: result, count };
+
+  result = result
+    .replace(/\.{3,}|。{3,}|(?<!…)…(?!…)/g, () => {
+      count++;
+      return "……";
+    })
+    .replace(HALF_PUNCT_NEAR_CJK, (m) => {
+      count++;
+      return HALF_TO_FULL[m];
+    })
+    .replace(PERIOD_AFTER_CJK, () => {
+      count++;
+      return "。";
+    })
+    .replace(PARENS_WITH_CJK, (_, inner: string) => {
+      count++;
+      return `（${inner}）`;
+    });
+
+  // 成对的英文双引号转换为中文引号
+  let open = true;
+  result = result.replace(/"/g, () => {
+    count++;
+    const quote = open ? "“" : "”";
+    open = !open;
+    return quote;
+  });
+  return { line: result, count };
+}
+
+/**
+ * 规范化文本：繁简转换、去除垃圾行、标点与空白规范化
+ * @param text 待处理文本
+ * @param options 规范化选项
+ */
+export default function normalizeText(text: string, options: NormalizeOptions = {}): { text: string; report: NormalizeReport } {
+  const { convert, punctuation = true, whitespace = true, junkPatterns = [], useDefaultJunkPatterns = true } = options;
+  const report: NormalizeReport = { converted: 0, punctuation: 0, whitespace: 0, junkLines: [] };
+
+  let result = text.replace(/\r\n?/g, "\n").replace(/[\u200b-\u200d\ufeff]/g, "");
+  if (convert) {
+    const converted = getConverter(convert)(result);
+    report.converted = countDiff(result, converted);
+    result = converted;
+  }
+
+  const junkRules = [...(useDefaultJunkPatterns ? DEFAULT_JUNK_PATTERNS : []), ...junkPatterns].map((p) => new RegExp(p, "i"));
+  const lines: string[] = [];
+  for (const raw of result.split("\n")) {
+    let line = raw;
+    const trimmed = line.trim();
+    if (trimmed && trimmed.length <= JUNK_LINE_MAX_LENGTH && junkRules.some((r) => r.test(trimmed))) {
+      report.junkLines.push(trimmed);
+      continue;
+    }
+    if (whitespace) {
+      // 去除首尾空白（含全角空格缩进），合并中文之间多余的空格
+      const cleaned = trimmed.replace(SPACE_BETWEEN_CJK, "").replace(/[ \t\u3000]{2,}/g, " ");
+      if (cleaned !== line) report.whitespace++;
+      line = cleaned;
+    }
+    if (punctuation) {
+      const normalized = normalizeLinePunctuation(line);
+      report.punctuation += normalized.count;
+      line = normalized.line;
+    }
+    lines.push(line);
+  }
+
+  result = lines.join("\n");
+  if (whitespace) result = result.replace(/\n{3,}/g, "\n\n").trim();
+  return { text: result, report };
+}
@@ -0,0 +1,183 @@
+export interface SplitChapter {
+  index: number; // 从1开始的章节序号
+  reel: string; // 所属分卷
+  chapter: string; // 章节标题行
+  chapterData: string; // 正文（已去除作者的话）
+  authorNotes: string[]; // 识别出的作者的话
+}
+
+export interface SplitResult {
+  frontMatter: string; // 第一个章节标题之前的内容（书名、作者、简介等）
+  chapters: SplitChapter[];
+  volumes: string[];
+  headingPattern: "chinese" | "english" | "numbered" | "none";
+  warnings: string[];
+}
+
+export interface SplitOptions {
+  keepAuthorNotes?: boolean; // 是否将作者的话保留在正文中
+  defaultReel?: string; // 未识别到分卷时使用的分卷名
+  maxHeadingLength?: number; // 标题行最大长度，超出视为正文
+}
+
+const NUM = "[零〇一二三四五六七八九十百千万萬两兩\\d０-９]+";
+
+const VOLUME_PATTERNS = [new RegExp(`^第${NUM}[卷部](?:[\\s:：、.·-]|$)`), /^卷[零〇一二三四五六七八九十百千\d]+(?:[\s:：、.·-]|$)/, /^(volume|book|part)\s+(\d+|[ivxlc]+)\b/i];
+const CHAPTER_PATTERNS = {
+  chinese: [new RegExp(`^第${NUM}[章节節回话話](?:[\\s:：、.·-]|$)`), /^(序章|序言|序幕|楔子|引子|尾声|尾聲|终章|終章|番外)(?:[\s:：、.·-]|$)/],
+  english: [/^chapter\s+(\d+|[ivxlc]+|[a-z]+)\b/i, /^(prologue|epilogue)\b/i],
+  numbered: [/^\d{1,4}[.、．]\s*\S/],
+};
+const AUTHOR_NOTE_BLOCK = /^[（(【]?(作者有话要?说|作者的话|作者感言|作者留言)/;
+const AUTHOR_NOTE_LINE = /^[（(【]?(ps|p\.s\.?)\s*[:：.]/i;
+
+/**
+ * 解析章节号（支持阿拉伯数字、全角数字与中文数字）
+ */
+function parseHeadingNumber(heading: string): number | null {
+  const raw = heading.match(new RegExp(`^第(${NUM})`))?.[1] ?? heading.match(/^chapter\s+(\d+)/i)?.[1] ?? heading.match(/^(\d{1,4})[.、．]/)?.[1];
+  if (!raw) return null;
+  const ascii = raw.replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0));
+  if (/^\d+$/.test(ascii)) return Number(ascii);
+
+  const digits: Record<string, number> = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+  const units: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+  let total = 0;
+  let section = 0;
+  let current = 0;
+  for (const ch of ascii) {
+    if (ch in digits) {
+      current = digits[ch];
+    } else if (ch in units) {
+      section += (current || 1) * units[ch];
+      current = 0;
+    } else if (ch === "万" || ch === "萬") {
+      total += (section + current) * 10000;
+      section = 0;
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + section + current;
+}
+
+function isVolumeHeading(line: string) {
+  return VOLUME_PATTERNS.some((p) => p.test(line));
+}
+
+/**
+ * 选择标题识别模式：优先中文章节，其次英文，都没有时才使用数字编号标题
+ */
+function detectHeadingPattern(lines: string[], maxLength: number): SplitResult["headingPattern"] {
+  const count = (patterns: RegExp[]) => lines.filter((l) => l.length <= maxLength && patterns.some((p) => p.test(l))).length;
+  const chinese = count(CHAPTER_PATTERNS.chinese);
+  const english = count(CHAPTER_PATTERNS.english);
+  if (chinese > 0 || english > 0) return chinese >= english ? "chinese" : "english";
+  return count(CHAPTER_PATTERNS.numbered) > 1 ? "numbered" : "none";
+}
+
+/**
+ * 分离正文与作者的话
+ */
+function separateAuthorNotes(lines: string[]): { body: string[]; notes: string[] } {
+  const body: string[] = [];
+  const notes: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (AUTHOR_NOTE_BLOCK.test(line)) {
+      // 作者的话通常位于章末，此后内容全部视为作者的话
+      notes.push(lines.slice(i).join("\n").trim());
+      break;
+    }
+    if (AUTHOR_NOTE_LINE.test(line)) {
+      notes.push(line);
+      continue;
+    }
+    body.push(lines[i]);
+  }
+  return { body, notes };
+}
+
+/**
+ * 将整本小说文本切分为分卷和章节
+ * @param text 小说全文
+ * @param options 切分选项
+ */
+export default function splitChapters(text: string, options: SplitOptions = {}): SplitResult {
+  const { keepAuthorNotes = false, defaultReel = "正文", maxHeadingLength = 40 } = options;
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const trimmed = lines.map((l) => l.trim());
+  const headingPattern = detectHeadingPattern(trimmed, maxHeadingLength);
+  const chapterPatterns = headingPattern === "none" ? [] : CHAPTER_PATTERNS[headingPattern];
+  const isChapterHeading = (line: string) => line.length <= maxHeadingLength && chapterPatterns.some((p) => p.test(line));
+
+  const warnings: string[] = [];
+  const volumes: string[] = [];
+  const frontLines: string[] = [];
+  const raw: Array<{ reel: string; chapter: string; lines: string[] }> = [];
+  let reel = defaultReel;
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = trimmed[i];
+    if (line && line.length <= maxHeadingLength && isVolumeHeading(line)) {
+      // 兼容“第一卷 第一章 xxx”这类分卷与章节同行的写法
+      const inline = line.match(new RegExp(`^(.*?)\\s*(第${NUM}[章节節回话話].*)$`));
+      if (inline && inline[1] && isChapterHeading(inline[2])) {
+        reel = inline[1].trim();
+        line = inline[2];
+      } else {
+        reel = line;
+        if (!volumes.includes(reel)) volumes.push(reel);
+        continue;
+      }
+      if (!volumes.includes(reel)) volumes.push(reel);
+    }
+    if (line && isChapterHeading(line)) {
+      raw.push({ reel, chapter: line, lines: [] });
+      continue;
+    }
+    if (raw.length) raw[raw.length - 1].lines.push(lines[i]);
+    else frontLines.push(lines[i]);
+  }
+
+  // 未识别到任何章节时，整本作为一章
+  if (!raw.length) {
+    warnings.push("未识别到章节标题，全文将作为单章导入");
+    raw.push({ reel, chapter: "全文", lines: frontLines.splice(0) });
+  }
+
+  const chapters: SplitChapter[] = [];
+  let emptyCount = 0;
+  let prevNumber: number | null = null;
+  for (const item of raw) {
+    // 去除正文开头重复的标题行
+    const firstContent = item.lines.findIndex((l) => l.trim());
+    if (firstContent !== -1 && item.lines[firstContent].trim() === item.chapter) item.lines.splice(firstContent, 1);
+
+    const { body, notes } = keepAuthorNotes ? { body: item.lines, notes: [] } : separateAuthorNotes(item.lines);
+    const chapterData = body.join("\n").trim();
+    if (!chapterData) {
+      // 无正文的标题通常来自目录页
+      emptyCount++;
+      continue;
+    }
+
+    const num = parseHeadingNumber(item.chapter);
+    if (num !== null && prevNumber !== null && num !== prevNumber + 1 && item.reel === chapters[chapters.length - 1]?.reel) {
+      warnings.push(`「${item.chapter}」的章节号与上一章(${prevNumber})不连续，可能存在缺章或重复`);
+    }
+    if (num !== null) prevNumber = num;
+
+    chapters.push({ index: chapters.length + 1, reel: item.reel, chapter: item.chapter, chapterData, authorNotes: notes });
+  }
+  if (emptyCount) warnings.push(`已跳过 ${emptyCount} 个无正文的章节标题（可能是目录）`);
+
+  return {
+    frontMatter: frontLines.join("\n").trim(),
+    chapters,
+    volumes,
+    headingPattern,
+    warnings,
+  };
+}
@@ -0,0 +1,136 @@
+import u from "@/utils";
+import { db } from "@/utils/db";
+
+export interface EpisodeCoverage {
+  outlineId: number;
+  episode: number;
+  title: string;
+  chapterRange: number[];
+  sourceLength: number; // 关联章节原文总字数
+}
+
+export interface CoverageReport {
+  totalChapters: number;
+  coveredChapters: number;
+  uncovered: number[]; // 未被任何一集覆盖的章节
+  overlaps: Array<{ chapterIndex: number; episodes: number[] }>; // 被多集重复覆盖的章节
+  outOfOrder: Array<{ episode: number; chapterRange: number[]; reason: string }>;
+  unknownChapters: Array<{ episode: number; chapters: number[] }>; // 引用了不存在的章节
+  emptyEpisodes: number[]; // 未关联任何章节的集
+  episodes: EpisodeCoverage[];
+  averageLength: number;
+}
+
+function parseOutline(data: string | null | undefined): { title: string; chapterRange: number[] } {
+  try {
+    const parsed = JSON.parse(data || "{}");
+    const range = Array.isArray(parsed.chapterRange) ? parsed.chapterRange.map(Number).filter((n: number) => !isNaN(n)) : [];
+    return { title: parsed.title ?? "", chapterRange: range };
+  } catch {
+    return { title: "", chapterRange: [] };
+  }
+}
+
+/**
+ * 将章节号压缩为区间文本，如 [1,2,3,5] => "1-3, 5"
+ */
+export function formatRanges(nums: number[]) {
+  const sorted = [...new Set(nums)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(", ");
+}
+
+/**
+ * 分析项目大纲对小说章节的覆盖情况：遗漏、重复、乱序及每集原文篇幅
+ */
+export default async function analyzeCoverage(projectId: number): Promise<CoverageReport> {
+  const [chapters, outlines] = await Promise.all([
+    u.db("t_novel").where("projectId", projectId).select("chapterIndex", db.raw("length(chapterData) as length")),
+    u.db("t_outline").where("projectId", projectId).select("id", "episode", "data").orderBy("episode", "asc"),
+  ]);
+
+  const lengthMap = new Map<number, number>(chapters.map((c: any) => [Number(c.chapterIndex), Number(c.length ?? 0)]));
+  const coverMap = new Map<number, number[]>();
+  const report: CoverageReport = {
+    totalChapters: lengthMap.size,
+    coveredChapters: 0,
+    uncovered: [],
+    overlaps: [],
+    outOfOrder: [],
+    unknownChapters: [],
+    emptyEpisodes: [],
+    episodes: [],
+    averageLength: 0,
+  };
+
+  let prevStart: number | null = null;
+  for (const outline of outlines) {
+    const episode = outline.episode!;
+    const { title, chapterRange } = parseOutline(outline.data);
+    if (!chapterRange.length) report.emptyEpisodes.push(episode);
+
+    const unknown = chapterRange.filter((idx) => !lengthMap.has(idx));
+    if (unknown.length) report.unknownChapters.push({ episode, chapters: unknown });
+
+    // 集内章节需递增，且每集起始章节不应早于上一集
+    if (chapterRange.some((idx, i) => i > 0 && idx <= chapterRange[i - 1])) {
+      report.outOfOrder.push({ episode, chapterRange, reason: "集内章节未按升序排列" });
+    } else if (chapterRange.length && prevStart !== null && chapterRange[0] < prevStart) {
+      report.outOfOrder.push({ episode, chapterRange, reason: `起始章节早于上一集（第${prevStart}章）` });
+    }
+    if (chapterRange.length) prevStart = Math.min(...chapterRange);
+
+    for (const idx of new Set(chapterRange)) {
+      coverMap.set(idx, [...(coverMap.get(idx) ?? []), episode]);
+    }
+
+    report.episodes.push({
+      outlineId: outline.id!,
+      episode,
+      title,
+      chapterRange,
+      sourceLength: chapterRange.reduce((sum, idx) => sum + (lengthMap.get(idx) ?? 0), 0),
+    });
+  }
+
+  for (const idx of [...lengthMap.keys()].sort((a, b) => a - b)) {
+    const episodes = coverMap.get(idx);
+    if (!episodes) report.uncovered.push(idx);
+    else if (episodes.length > 1) report.overlaps.push({ chapterIndex: idx, episodes });
+  }
+  report.coveredChapters = report.totalChapters - report.uncovered.length;
+  report.averageLength = report.episodes.length
+    ? Math.round(report.episodes.reduce((sum, e) => sum + e.sourceLength, 0) / report.episodes.length)
+    : 0;
+
+  return report;
+}
+
+/**
+ * 覆盖检查结果的文本摘要，供 Agent 阅读
+ */
+export function formatCoverageReport(report: CoverageReport, detail = true) {
+  if (!report.episodes.length) return "当前项目没有大纲";
+
+  const lines = [`章节覆盖: ${report.coveredChapters}/${report.totalChapters} 章，共 ${report.episodes.length} 集，平均每集原文 ${report.averageLength} 字`];
+  lines.push(report.uncovered.length ? `未覆盖章节: ${formatRanges(report.uncovered)}` : "未覆盖章节: 无");
+  if (report.overlaps.length) {
+    lines.push(`重复覆盖: ${report.overlaps.map((o) => `第${o.chapterIndex}章(第${o.episodes.join("、")}集)`).join("; ")}`);
+  }
+  for (const item of report.outOfOrder) lines.push(`顺序异常: 第${item.episode}集 [${item.chapterRange.join(", ")}] ${item.reason}`);
+  for (const item of report.unknownChapters) lines.push(`章节不存在: 第${item.episode}集引用了第 ${formatRanges(item.chapters)} 章`);
+  if (report.emptyEpisodes.length) lines.push(`未关联章节的集: 第${report.emptyEpisodes.join("、")}集`);
+
+  if (detail) {
+    lines.push("", "各集原文篇幅:");
+    for (const e of report.episodes) {
+      lines.push(`  第${e.episode}集 ${e.title}: 章节 ${formatRanges(e.chapterRange) || "无"}，${e.sourceLength} 字`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,159 @@
+import type { Knex } from "knex";
+import { db } from "@/utils/db";
+import { recordOutlineSource } from "@/utils/sourceHash";
+import { AI_AUTHOR, saveScriptContent } from "@/utils/scriptRevision";
+import { deleteScripts } from "@/utils/deleteScript";
+import { mergeStoryboard } from "@/utils/storyboardStore";
+import { recordCreatedOutlines, snapshotOutlines, VersionMeta } from "@/utils/outlineVersion";
+
+function parseData(data: string | null | undefined): Record<string, any> {
+  try {
+    return JSON.parse(data || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+async function findOutline(trx: Knex, id: number) {
+  const outline = await trx("t_outline").where("id", id).first();
+  if (!outline) throw new Error(`大纲不存在: ${id}`);
+  return outline;
+}
+
+async function findOrderedOutlines(trx: Knex, projectId: number): Promise<Array<{ id: number }>> {
+  return trx("t_outline").where("projectId", projectId).orderBy("episode", "asc").orderBy("id", "asc").select("id");
+}
+
+/**
+ * 按给定顺序重排集数：同步 t_outline.episode、大纲内的 episodeIndex 以及剧本名称（第N集）
+ */
+async function applyOrder(trx: Knex, orderedIds: number[], meta: VersionMeta) {
+  const outlines = await trx("t_outline").whereIn("id", orderedIds);
+  const outlineMap = new Map(outlines.map((o: any) => [o.id, o]));
+
+  const changed = orderedIds.filter((id, idx) => {
+    const outline = outlineMap.get(id);
+    return outline && (outline.episode !== idx + 1 || parseData(outline.data).episodeIndex !== idx + 1);
+  });
+  await snapshotOutlines(changed, "update", meta, trx);
+
+  for (const [idx, id] of orderedIds.entries()) {
+    const outline = outlineMap.get(id);
+    if (!outline) continue;
+    const episode = idx + 1;
+    if (changed.includes(id)) {
+      const data = parseData(outline.data);
+      await trx("t_outline")
+        .where("id", id)
+        .update({ episode, data: JSON.stringify({ ...data, episodeIndex: episode }) });
+    }
+    await trx("t_script").where("outlineId", id).update({ name: `第${episode}集` });
+  }
+}
+
+/**
+ * 移动单集到指定位置，其余集依次顺延
+ */
+export async function moveEpisode(outlineId: number, toEpisode: number, meta: VersionMeta) {
+  return db.transaction(async (trx) => {
+    const outline = await findOutline(trx, outlineId);
+    const ids = (await findOrderedOutlines(trx, outline.projectId)).map((o) => o.id).filter((id) => id !== outlineId);
+    const target = Math.min(Math.max(toEpisode, 1), ids.length + 1);
+    ids.splice(target - 1, 0, outlineId);
+
+    await applyOrder(trx, ids, meta);
+    return target;
+  });
+}
+
+/**
+ * 将一集拆为两集：原大纲替换为前半部分并保留剧本及下游分镜/视频，后半部分插入为新的一集并创建空剧本
+ */
+export async function splitEpisode(outlineId: number, first: Record<string, any>, second: Record<string, any>, meta: VersionMeta) {
+  const newId = await db.transaction(async (trx) => {
+    const outline = await findOutline(trx, outlineId);
+    const projectId = outline.projectId;
+
+    await snapshotOutlines([outlineId], "update", meta, trx);
+    await trx("t_outline")
+      .where("id", outlineId)
+      .update({ data: JSON.stringify(first) });
+
+    const [newId] = await trx("t_outline").insert({ projectId, episode: outline.episode, data: JSON.stringify(second) });
+    await trx("t_script").insert({ name: "", content: "", projectId, outlineId: newId });
+    await recordCreatedOutlines([newId], meta, trx);
+
+    // 原剧本按拆分前的大纲生成，标记过期等待重新生成
+    await trx("t_script").where("outlineId", outlineId).whereNot("content", "").update({ stale: 1 });
+
+    const ids = (await findOrderedOutlines(trx, projectId)).map((o) => o.id).filter((id) => id !== newId);
+    ids.splice(ids.indexOf(outlineId) + 1, 0, newId);
+    await applyOrder(trx, ids, meta);
+    return newId as number;
+  });
+  // 章节哈希需读取小说内容，放在事务外
+  await recordOutlineSource([outlineId, newId]);
+
+  return { firstId: outlineId, secondId: newId };
+}
+
+/**
+ * 将两集合并为一集：保留靠前的大纲与剧本，靠后一集的剧本内容及分镜、视频并入保留的剧本后删除
+ */
+export async function mergeEpisodes(firstId: number, secondId: number, data: Record<string, any>, meta: VersionMeta) {
+  if (firstId === secondId) throw new Error("不能合并同一集");
+  const [keep, drop] = await db.transaction(async (trx) => {
+    const a = await findOutline(trx, firstId);
+    const b = await findOutline(trx, secondId);
+    if (a.projectId !== b.projectId) throw new Error("只能合并同一项目的大纲");
+    const [keep, drop] = a.episode <= b.episode ? [a, b] : [b, a];
+    const projectId = keep.projectId;
+
+    await snapshotOutlines([keep.id], "update", meta, trx);
+    await trx("t_outline")
+      .where("id", keep.id)
+      .update({ data: JSON.stringify(data) });
+
+    const keepScript = await trx("t_script").where("outlineId", keep.id).first();
+    const dropScript = await trx("t_script").where("outlineId", drop.id).first();
+    if (keepScript && dropScript) {
+      const content = [keepScript.content, dropScript.content].filter(Boolean).join("\n\n");
+      await saveScriptContent(
+        keepScript.id,
+        content,
+        { source: "merge", author: meta.source === "agent" ? AI_AUTHOR : null },
+        { stale: content ? 1 : 0 },
+        trx,
+      );
+
+      // 分镜片段编号接在保留剧本之后，避免与原有片段冲突
+      const maxSegment = await trx("t_assets").where("scriptId", keepScript.id).max("segmentId as max").first();
+      const offset = maxSegment?.max ?? 0;
+      const shots = await trx("t_assets").where("scriptId", dropScript.id).select("id", "segmentId");
+      for (const shot of shots) {
+        await trx("t_assets")
+          .where("id", shot.id)
+          .update({ scriptId: keepScript.id, segmentId: (shot.segmentId ?? 1) + offset });
+      }
+      await trx("t_image").where("scriptId", dropScript.id).update({ scriptId: keepScript.id });
+      await trx("t_video").where("scriptId", dropScript.id).update({ scriptId: keepScript.id });
+      await trx("t_videoConfig").where("scriptId", dropScript.id).update({ scriptId: keepScript.id });
+      await trx("t_scriptRevision").where("scriptId", dropScript.id).update({ scriptId: keepScript.id });
+      await mergeStoryboard(dropScript.id, keepScript.id, trx);
+      await deleteScripts([dropScript.id], trx);
+    } else if (dropScript) {
+      await trx("t_script").where("id", dropScript.id).update({ outlineId: keep.id });
+    }
+
+    await snapshotOutlines([drop.id], "delete", meta, trx);
+    await trx("t_outline").where("id", drop.id).del();
+
+    const ids = (await findOrderedOutlines(trx, projectId)).map((o) => o.id);
+    await applyOrder(trx, ids, meta);
+    return [keep, drop];
+  });
+  // 章节哈希需读取小说内容，放在事务外
+  await recordOutlineSource([keep.id]);
+
+  return { keptId: keep.id as number, removedId: drop.id as number };
+}
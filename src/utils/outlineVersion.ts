@@ -0,0 +1,196 @@
+import u from "@/utils";
+import type { Knex } from "knex";
+import { db } from "@/utils/db";
+import { deleteOutlineScripts } from "@/utils/deleteScript";
+import { diffLines, DiffLine } from "@/utils/textDiff";
+
+export type VersionAction = "create" | "update" | "delete" | "restore";
+
+export interface VersionMeta {
+  source: "agent" | "manual"; // agent：Agent 工具写入；manual：接口手动写入
+  turnId?: string | null; // Agent 单次调用的标识，用于整轮回滚
+}
+
+export interface FieldDiff {
+  field: string;
+  from: unknown;
+  to: unknown;
+  lines?: DiffLine[]; // 文本/列表字段的逐行比对
+  added?: string[]; // 资产字段新增的名称
+  removed?: string[]; // 资产字段移除的名称
+  modified?: Array<{ name: string; from: unknown; to: unknown }>; // 资产字段同名但内容变化
+}
+
+// 按文本逐行比对的字段
+const TEXT_FIELDS = ["title", "coreConflict", "outline", "openingHook", "emotionalCurve", "endingHook"];
+// 按元素逐行比对的列表字段
+const LIST_FIELDS = ["chapterRange", "keyEvents", "visualHighlights", "classicQuotes"];
+// 按名称比对的资产字段
+const ASSET_FIELDS = ["characters", "scenes", "props"];
+
+function parseData(data: string | null | undefined): Record<string, any> {
+  try {
+    return JSON.parse(data || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 写入前保存大纲当前内容，之后的删除/修改均可据此恢复
+ */
+export async function snapshotOutlines(outlineIds: number[], action: Exclude<VersionAction, "create">, meta: VersionMeta, trx: Knex = db) {
+  if (!outlineIds.length) return;
+  const outlines = await trx("t_outline").whereIn("id", outlineIds).select("*");
+  const createTime = Date.now();
+  for (const outline of outlines) {
+    await trx("t_outlineVersion").insert({
+      outlineId: outline.id,
+      projectId: outline.projectId,
+      episode: outline.episode,
+      data: outline.data,
+      sourceHash: outline.sourceHash,
+      stale: outline.stale,
+      action,
+      source: meta.source,
+      turnId: meta.turnId ?? null,
+      createTime,
+    });
+  }
+}
+
+/**
+ * 新建大纲后记录一条空版本（data 为空），表示写入前该大纲不存在
+ */
+export async function recordCreatedOutlines(outlineIds: number[], meta: VersionMeta, trx: Knex = db) {
+  if (!outlineIds.length) return;
+  const outlines = await trx("t_outline").whereIn("id", outlineIds).select("id", "projectId", "episode");
+  const createTime = Date.now();
+  for (const outline of outlines) {
+    await trx("t_outlineVersion").insert({
+      outlineId: outline.id,
+      projectId: outline.projectId,
+      episode: outline.episode,
+      data: null,
+      action: "create",
+      source: meta.source,
+      turnId: meta.turnId ?? null,
+      createTime,
+    });
+  }
+}
+
+/**
+ * 将大纲写回到指定版本的内容，大纲已被删除时按原ID重建并补建空剧本
+ */
+async function applyVersion(version: Record<string, any>) {
+  const existing = await u.db("t_outline").where("id", version.outlineId).first();
+  const fields = {
+    episode: version.episode,
+    data: version.data,
+    sourceHash: version.sourceHash,
+    stale: version.stale ?? 0,
+  };
+  if (existing) {
+    await u.db("t_outline").where("id", version.outlineId).update(fields);
+    return "updated" as const;
+  }
+
+  await u.db("t_outline").insert({ id: version.outlineId, projectId: version.projectId, ...fields });
+  const script = await u.db("t_script").where("outlineId", version.outlineId).first();
+  if (!script) {
+    const episodeIndex = parseData(version.data).episodeIndex ?? version.episode ?? "";
+    await u.db("t_script").insert({ name: `第${episodeIndex}集`, content: "", projectId: version.projectId, outlineId: version.outlineId });
+  }
+  return "recreated" as const;
+}
+
+/**
+ * 恢复单个版本，恢复前会先保存当前内容
+ */
+export async function restoreOutlineVersion(versionId: number) {
+  const version = await u.db("t_outlineVersion").where("id", versionId).first();
+  if (!version) throw new Error("版本不存在");
+  if (version.data == null) throw new Error("该版本为大纲创建前的空状态，无法恢复");
+
+  await snapshotOutlines([version.outlineId!], "restore", { source: "manual" });
+  return applyVersion(version);
+}
+
+/**
+ * 将项目大纲恢复到最近一轮 Agent 调用之前：
+ * 本轮修改/删除的大纲回到本轮首次写入前的内容，本轮新建的大纲连同空剧本一并删除
+ */
+export async function restoreLastAgentTurn(projectId: number) {
+  // 已回滚过的轮次跳过，重复调用时逐轮向前回滚
+  const restored = await u.db("t_outlineVersion").where({ projectId, action: "restore" }).whereNotNull("turnId").pluck("turnId");
+  const last = await u
+    .db("t_outlineVersion")
+    .where({ projectId, source: "agent" })
+    .whereNotNull("turnId")
+    .whereNotIn("turnId", restored)
+    .orderBy("id", "desc")
+    .first();
+  if (!last) return null;
+
+  const versions = await u.db("t_outlineVersion").where({ projectId, source: "agent", turnId: last.turnId }).orderBy("id", "asc");
+  // 同一大纲在本轮内可能被多次写入，只取第一次写入前的内容
+  const earliest = new Map<number, (typeof versions)[number]>();
+  for (const version of versions) {
+    if (!earliest.has(version.outlineId!)) earliest.set(version.outlineId!, version);
+  }
+
+  await snapshotOutlines([...earliest.keys()], "restore", { source: "manual", turnId: last.turnId });
+
+  const result = { turnId: last.turnId, updated: 0, recreated: 0, removed: 0 };
+  for (const version of earliest.values()) {
+    if (version.data == null) {
+      await deleteOutlineScripts([version.outlineId!]);
+      const removed = await u.db("t_outline").where("id", version.outlineId!).del();
+      if (removed) result.removed++;
+      continue;
+    }
+    result[await applyVersion(version)]++;
+  }
+  return result;
+}
+
+function diffAssets(from: any[], to: any[]) {
+  const fromMap = new Map(from.map((item) => [item?.name, item]));
+  const toMap = new Map(to.map((item) => [item?.name, item]));
+  return {
+    added: [...toMap.keys()].filter((name) => !fromMap.has(name)),
+    removed: [...fromMap.keys()].filter((name) => !toMap.has(name)),
+    modified: [...toMap.keys()]
+      .filter((name) => fromMap.has(name) && JSON.stringify(fromMap.get(name)) !== JSON.stringify(toMap.get(name)))
+      .map((name) => ({ name, from: fromMap.get(name), to: toMap.get(name) })),
+  };
+}
+
+/**
+ * 按字段比对两份大纲数据，只返回有变化的字段
+ */
+export function diffOutlineData(fromData: string | null | undefined, toData: string | null | undefined): FieldDiff[] {
+  const from = parseData(fromData);
+  const to = parseData(toData);
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+  const diffs: FieldDiff[] = [];
+  for (const field of fields) {
+    const a = from[field];
+    const b = to[field];
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+
+    const item: FieldDiff = { field, from: a ?? null, to: b ?? null };
+    if (TEXT_FIELDS.includes(field)) {
+      item.lines = diffLines(String(a ?? ""), String(b ?? ""));
+    } else if (LIST_FIELDS.includes(field)) {
+      const join = (list: unknown) => (Array.isArray(list) ? list.map(String).join("\n") : String(list ?? ""));
+      item.lines = diffLines(join(a), join(b));
+    } else if (ASSET_FIELDS.includes(field)) {
+      Object.assign(item, diffAssets(Array.isArray(a) ? a : [], Array.isArray(b) ? b : []));
+    }
+    diffs.push(item);
+  }
+  return diffs;
+}
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import type { DB } from "@/types/database";
+
+export const screenplayElementSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("action"),
+    shot: z.string().nullable().describe("镜头衔接方式：切、反打、插入，普通镜头为 null"),
+    text: z.string().describe("画面描述"),
+  }),
+  z.object({
+    type: z.literal("dialogue"),
+    speaker: z.string().describe("说话角色"),
+    parenthetical: z.string().nullable().describe("表演指导，如 冷笑、画外音"),
+    line: z.string().describe("台词"),
+  }),
+  z.object({
+    type: z.literal("cue"),
+    kind: z.string().describe("提示类型：环境音、BGM、音效、道具、特写、字幕、特效等"),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("transition"),
+    kind: z.string().describe("转场类型：切、叠化、淡入、淡出、闪白、闪黑、黑屏、转场"),
+    text: z.string().nullable(),
+  }),
+  z.object({
+    type: z.literal("text"),
+    text: z.string().describe("无法识别的行，原样保留"),
+  }),
+]);
+
+export const screenplaySceneSchema = z.object({
+  location: z.string().nullable().describe("场景名，第一个场景标题之前的内容为 null"),
+  time: z.string().nullable(),
+  characters: z.array(z.string()).describe("出场角色"),
+  elements: z.array(screenplayElementSchema),
+});
+
+export const screenplaySchema = z.object({
+  scenes: z.array(screenplaySceneSchema),
+});
+
+export type ScreenplayElement = z.infer<typeof screenplayElementSchema>;
+export type ScreenplayScene = z.infer<typeof screenplaySceneSchema>;
+export type Screenplay = z.infer<typeof screenplaySchema>;
+
+export interface DialogueLine {
+  sceneIndex: number;
+  location: string | null;
+  speaker: string;
+  parenthetical: string | null;
+  line: string;
+}
+
+// 单独成行的方括号提示中属于转场的类型，其余视为声音/画面提示
+const TRANSITION_KINDS = ["切", "叠化", "淡入", "淡出", "闪白", "闪黑", "黑屏", "转场"];
+const SHOT_KINDS = ["切", "反打", "插入"];
+
+const HEADING_RE = /^※\s*(.*)$/;
+const CHARACTERS_RE = /^\$\s*(.*)$/;
+const ACTION_RE = new RegExp(`^△\\s*(?:(${SHOT_KINDS.join("|")})[：:]\\s*)?(.*)$`);
+const BRACKET_LINE_RE = /^(?:【[^【】]*】\s*)+$/;
+const BRACKET_RE = /【([^【】：:]+)(?:[：:]([^【】]*))?】/g;
+// 角色名（表演指导）：台词，角色名不含空白与标点
+const DIALOGUE_RE = /^([^\s\p{P}\p{S}]{1,16})\s*(?:[（(]([^）)]*)[）)])?\s*[：:]\s*(.*)$/u;
+
+function parseHeading(text: string) {
+  const match = text.match(/^(.*?)\s*[-—–]+\s*([^-—–]*)$/);
+  if (!match || !match[1]) return { location: text, time: null };
+  return { location: match[1], time: match[2] || null };
+}
+
+function parseBrackets(line: string): ScreenplayElement[] {
+  return Array.from(line.matchAll(BRACKET_RE), ([, kind, text]): ScreenplayElement => {
+    kind = kind.trim();
+    if (TRANSITION_KINDS.includes(kind)) return { type: "transition", kind, text: text?.trim() || null };
+    return { type: "cue", kind, text: text?.trim() ?? "" };
+  });
+}
+
+function parseLine(line: string): ScreenplayElement[] {
+  const action = line.match(ACTION_RE);
+  if (action) return [{ type: "action", shot: action[1] ?? null, text: action[2].trim() }];
+  if (BRACKET_LINE_RE.test(line)) return parseBrackets(line);
+  const dialogue = line.match(DIALOGUE_RE);
+  if (dialogue) return [{ type: "dialogue", speaker: dialogue[1], parenthetical: dialogue[2]?.trim() || null, line: dialogue[3].trim() }];
+  return [{ type: "text", text: line }];
+}
+
+/**
+ * 将剧本文本解析为按场景划分的结构：场景标题、出场角色、镜头、台词、提示与转场
+ */
+export function parseScreenplay(content: string): Screenplay {
+  const scenes: ScreenplayScene[] = [];
+  let current: ScreenplayScene | null = null;
+  const ensureScene = () => {
+    if (!current) {
+      current = { location: null, time: null, characters: [], elements: [] };
+      scenes.push(current);
+    }
+    return current;
+  };
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      current = { ...parseHeading(heading[1].trim()), characters: [], elements: [] };
+      scenes.push(current);
+      continue;
+    }
+
+    const characters = line.match(CHARACTERS_RE);
+    if (characters) {
+      const names = characters[1].split(/[、，,\s]+/).filter(Boolean);
+      const scene = ensureScene();
+      scene.characters.push(...names.filter((name) => !scene.characters.includes(name)));
+      continue;
+    }
+
+    ensureScene().elements.push(...parseLine(line));
+  }
+  return { scenes };
+}
+
+function renderElement(element: ScreenplayElement) {
+  switch (element.type) {
+    case "action":
+      return `△ ${element.shot ? `${element.shot}：` : ""}${element.text}`;
+    case "dialogue":
+      return `${element.speaker}${element.parenthetical ? `（${element.parenthetical}）` : ""}：${element.line}`;
+    case "cue":
+      return element.text ? `【${element.kind}：${element.text}】` : `【${element.kind}】`;
+    case "transition":
+      return element.text ? `【${element.kind}：${element.text}】` : `【${element.kind}】`;
+    case "text":
+      return element.text;
+  }
+}
+
+/**
+ * 将结构还原为剧本文本：每个元素一行，场景之间空一行
+ */
+export function renderScreenplay(screenplay: Screenplay) {
+  return screenplay.scenes
+    .map((scene) => {
+      const lines: string[] = [];
+      if (scene.location !== null) lines.push(`※ ${scene.location}${scene.time ? ` - ${scene.time}` : ""}`);
+      if (scene.characters.length) lines.push(`$ ${scene.characters.join("、")}`);
+      lines.push(...scene.elements.map(renderElement));
+      return lines.join("\n");
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * 按出现顺序列出全部台词，供字幕与配音使用
+ */
+export function extractDialogue(screenplay: Screenplay): DialogueLine[] {
+  return screenplay.scenes.flatMap((scene, sceneIndex) =>
+    scene.elements
+      .filter((el) => el.type === "dialogue")
+      .map((el) => ({ sceneIndex, location: scene.location, speaker: el.speaker, parenthetical: el.parenthetical, line: el.line })),
+  );
+}
+
+/**
+ * 读取剧本结构，旧数据没有保存结构时按内容现场解析
+ */
+export function getScriptStructure(script: Pick<DB["t_script"], "content" | "structure">): Screenplay {
+  if (script.structure) {
+    try {
+      return screenplaySchema.parse(JSON.parse(script.structure));
+    } catch {}
+  }
+  return parseScreenplay(script.content ?? "");
+}
@@ -0,0 +1,274 @@
+import u from "@/utils";
+import { getScriptStructure, Screenplay, ScreenplayElement, ScreenplayScene } from "@/utils/screenplay";
+
+export type ExportFormat = "fountain" | "fdx";
+
+export interface ExportEpisode {
+  episode: number;
+  title: string;
+  screenplay: Screenplay;
+}
+
+function episodeLabel(item: Pick<ExportEpisode, "episode" | "title">) {
+  return `第${item.episode}集${item.title ? ` ${item.title}` : ""}`;
+}
+
+function sceneHeading(scene: ScreenplayScene) {
+  return `${scene.location}${scene.time ? ` - ${scene.time}` : ""}`;
+}
+
+function actionText(element: Extract<ScreenplayElement, { type: "action" }>) {
+  return `${element.shot ? `${element.shot}：` : ""}${element.text}`;
+}
+
+function bracketText(element: Extract<ScreenplayElement, { type: "cue" | "transition" }>) {
+  return element.text ? `${element.kind}：${element.text}` : element.kind;
+}
+
+// ==================== Fountain ====================
+
+// 中文没有大小写，场景标题、角色名、动作、转场全部使用 Fountain 的强制标记
+function fountainElement(element: ScreenplayElement) {
+  switch (element.type) {
+    case "action":
+      return `!${actionText(element)}`;
+    case "dialogue":
+      return [`@${element.speaker}`, ...(element.parenthetical ? [`(${element.parenthetical})`] : []), element.line].join("\n");
+    case "cue":
+      return `!【${bracketText(element)}】`;
+    case "transition":
+      return `> ${bracketText(element)}`;
+    case "text":
+      return `!${element.text}`;
+  }
+}
+
+function fountainScene(scene: ScreenplayScene) {
+  const blocks: string[] = [];
+  if (scene.location !== null) blocks.push(`.${sceneHeading(scene)}`);
+  // 出场角色没有对应的 Fountain 元素，以备注保存，导入时还原
+  if (scene.characters.length) blocks.push(`[[出场：${scene.characters.join("、")}]]`);
+  blocks.push(...scene.elements.map(fountainElement));
+  return blocks.join("\n\n");
+}
+
+/**
+ * 导出为 Fountain 文本：多集时每集以章节标题开头并分页
+ */
+export function toFountain(title: string, episodes: ExportEpisode[]) {
+  const body = episodes.map((item) => {
+    const scenes = item.screenplay.scenes.map(fountainScene).filter(Boolean).join("\n\n");
+    return episodes.length > 1 ? `# ${episodeLabel(item)}\n\n${scenes}` : scenes;
+  });
+  return `Title: ${title}\n\n${body.join("\n\n===\n\n")}\n`;
+}
+
+// 强制标记的场景标题（单个句点开头）或英文剧本常见的内外景前缀
+const FOUNTAIN_HEADING_RE = /^(?:\.(?!\.)\s*(.+)|((?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s].*))$/i;
+const FOUNTAIN_TITLE_KEY_RE = /^[A-Za-z][A-Za-z ]*:/;
+
+function stripFountainMarkup(text: string) {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\[\[(?!出场：)[\s\S]*?\]\]/g, "")
+    .replace(/\r\n?/g, "\n");
+}
+
+function isCharacterCue(line: string) {
+  if (line.startsWith("@")) return true;
+  // 英文剧本的角色名为全大写
+  return /[A-Z]/.test(line) && line === line.toUpperCase() && !/[a-z]/.test(line) && !line.endsWith("TO:");
+}
+
+function parseCharacterCue(line: string) {
+  const cue = line.replace(/^@/, "").replace(/\^$/, "").trim();
+  const match = cue.match(/^(.*?)\s*[（(]([^）)]*)[）)]$/);
+  return match ? { speaker: match[1], extension: match[2] } : { speaker: cue, extension: null };
+}
+
+/**
+ * 将 Fountain 文本转换为本系统的剧本文本格式（※ 场景、$ 出场角色、△ 镜头、角色（表演）：台词、【提示】）
+ */
+export function fountainToScript(fountain: string) {
+  const lines = stripFountainMarkup(fountain).split("\n");
+
+  // 跳过标题页：开头连续的 Key: Value 行
+  let start = 0;
+  if (FOUNTAIN_TITLE_KEY_RE.test(lines[0]?.trim() ?? "")) {
+    while (start < lines.length && lines[start].trim()) start++;
+  }
+
+  const blocks: string[][] = [];
+  let block: string[] = [];
+  for (const raw of lines.slice(start)) {
+    const line = raw.trim();
+    if (!line) {
+      if (block.length) blocks.push(block);
+      block = [];
+      continue;
+    }
+    block.push(line);
+  }
+  if (block.length) blocks.push(block);
+
+  const output: string[] = [];
+  for (const block of blocks) {
+    const [first, ...rest] = block;
+
+    // 对白：角色名后紧跟台词，括号行为表演指导
+    if (rest.length && isCharacterCue(first)) {
+      const { speaker, extension } = parseCharacterCue(first);
+      const notes = extension ? [extension] : [];
+      const speech: string[] = [];
+      for (const line of rest) {
+        const paren = line.match(/^[（(](.*)[）)]$/);
+        if (paren) notes.push(paren[1].trim());
+        else speech.push(line);
+      }
+      output.push(`${speaker}${notes.length ? `（${notes.join("，")}）` : ""}：${speech.join(" ")}`);
+      continue;
+    }
+
+    for (const line of block) {
+      const note = line.match(/^\[\[出场：(.*)\]\]$/);
+      if (note) {
+        output.push(`$ ${note[1]}`);
+        continue;
+      }
+      // 章节、提要、分页不属于剧本内容
+      if (/^(#|=)/.test(line)) continue;
+
+      const heading = line.match(FOUNTAIN_HEADING_RE);
+      if (heading) {
+        if (output.length) output.push("");
+        output.push(`※ ${(heading[1] ?? heading[2]).trim()}`);
+        continue;
+      }
+      if (line.startsWith(">") && !line.endsWith("<")) {
+        output.push(`【${line.slice(1).trim()}】`);
+        continue;
+      }
+      if (/^[A-Z\s.]+TO:$/.test(line)) {
+        output.push(`【转场：${line}】`);
+        continue;
+      }
+
+      const action = line.replace(/^!/, "").replace(/^>\s*(.*?)\s*<$/, "$1");
+      output.push(/^(?:【[^【】]*】\s*)+$/.test(action) ? action : `△ ${action}`);
+    }
+  }
+  return output.join("\n");
+}
+
+// ==================== Final Draft (FDX) ====================
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function fdxParagraph(type: string, text: string, newPage = false) {
+  return `    <Paragraph Type="${type}"${newPage ? ' StartsNewPage="Yes"' : ""}>\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+}
+
+function fdxElement(element: ScreenplayElement) {
+  switch (element.type) {
+    case "action":
+      return [fdxParagraph("Action", actionText(element))];
+    case "dialogue":
+      return [
+        fdxParagraph("Character", element.speaker),
+        ...(element.parenthetical ? [fdxParagraph("Parenthetical", `(${element.parenthetical})`)] : []),
+        fdxParagraph("Dialogue", element.line),
+      ];
+    case "cue":
+      return [fdxParagraph("Action", `【${bracketText(element)}】`)];
+    case "transition":
+      return [fdxParagraph("Transition", bracketText(element))];
+    case "text":
+      return [fdxParagraph("Action", element.text)];
+  }
+}
+
+/**
+ * 导出为 Final Draft（FDX）文档：多集时每集以新的一幕开始并分页
+ */
+export function toFdx(title: string, episodes: ExportEpisode[]) {
+  const paragraphs = episodes.flatMap((item, idx) => [
+    ...(episodes.length > 1 ? [fdxParagraph("New Act", episodeLabel(item), idx > 0)] : []),
+    ...item.screenplay.scenes.flatMap((scene) => [
+      ...(scene.location !== null ? [fdxParagraph("Scene Heading", sceneHeading(scene))] : []),
+      ...(scene.characters.length ? [fdxParagraph("General", `出场：${scene.characters.join("、")}`)] : []),
+      ...scene.elements.flatMap(fdxElement),
+    ]),
+  ]);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>`,
+    `<FinalDraft DocumentType="Script" Template="No" Version="5">`,
+    `  <Content>`,
+    ...paragraphs,
+    `  </Content>`,
+    `  <TitlePage>`,
+    `    <Content>`,
+    `      <Paragraph Alignment="Center" Type="Text">`,
+    `        <Text>${escapeXml(title)}</Text>`,
+    `      </Paragraph>`,
+    `    </Content>`,
+    `  </TitlePage>`,
+    `</FinalDraft>`,
+    "",
+  ].join("\n");
+}
+
+// ==================== 导出 ====================
+
+function parseTitle(data: string | null | undefined) {
+  try {
+    return String(JSON.parse(data || "{}")?.title ?? "");
+  } catch {
+    return "";
+  }
+}
+
+function render(format: ExportFormat, title: string, episodes: ExportEpisode[]) {
+  return format === "fdx" ? toFdx(title, episodes) : toFountain(title, episodes);
+}
+
+async function findEpisodes(query: { scriptId?: number; projectId?: number }): Promise<ExportEpisode[]> {
+  const builder = u
+    .db("t_script")
+    .leftJoin("t_outline", "t_script.outlineId", "t_outline.id")
+    .select("t_script.content", "t_script.structure", "t_outline.episode", "t_outline.data")
+    .orderBy("t_outline.episode", "asc");
+  if (query.scriptId) builder.where("t_script.id", query.scriptId);
+  if (query.projectId) builder.where("t_script.projectId", query.projectId);
+
+  const rows: Array<{ content: string | null; structure: string | null; episode: number | null; data: string | null }> = await builder;
+  return rows.map((row) => ({
+    episode: row.episode ?? 0,
+    title: parseTitle(row.data),
+    screenplay: getScriptStructure(row),
+  }));
+}
+
+/**
+ * 导出单集剧本，集数与标题取自关联的大纲
+ */
+export async function exportScript(scriptId: number, format: ExportFormat) {
+  const [episode] = await findEpisodes({ scriptId });
+  if (!episode) throw new Error("剧本不存在");
+  const title = episodeLabel(episode);
+  return { fileName: `${title}.${format}`, content: render(format, title, [episode]) };
+}
+
+/**
+ * 按集数顺序导出项目的全部剧本
+ */
+export async function exportProjectScript(projectId: number, format: ExportFormat) {
+  const project = await u.db("t_project").where("id", projectId).first();
+  if (!project) throw new Error("项目不存在");
+  const episodes = await findEpisodes({ projectId });
+  if (!episodes.length) throw new Error("项目没有剧本");
+  const title = project.name || `项目${projectId}`;
+  return { fileName: `${title}.${format}`, content: render(format, title, episodes) };
+}
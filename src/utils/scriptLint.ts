@@ -0,0 +1,98 @@
+import type { Episode } from "@/utils/generateScript";
+
+export interface LintIssue {
+  rule: "length" | "ending" | "openingHook" | "classicQuote" | "asset" | "assetOrder";
+  level: "error" | "warning";
+  message: string;
+}
+
+// 剧本字数范围（不含空白）
+const MIN_LENGTH = 500;
+const MAX_LENGTH = 800;
+const ENDING_MARK = "【黑屏】";
+// 判断开场镜头时截取剧本开头的字数
+const OPENING_WINDOW = 200;
+// 开场镜头与剧本开头的相似度下限（字符二元组重合比例）
+const OPENING_THRESHOLD = 0.3;
+
+// 比对时忽略空白、标点与引号差异
+function normalize(text: string) {
+  return text.replace(/[\s\p{P}\p{S}]/gu, "");
+}
+
+function bigrams(text: string) {
+  const chars = Array.from(normalize(text));
+  const set = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) set.add(chars[i] + chars[i + 1]);
+  return set;
+}
+
+/**
+ * 统计字数（不含空白）
+ */
+export function countScriptLength(script: string) {
+  return Array.from(script.replace(/\s/g, "")).length;
+}
+
+/**
+ * 按大纲检查剧本是否满足生成提示中的硬性要求，返回违反项（空数组表示通过）
+ */
+export function lintScript(script: string, episode: Partial<Episode>): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const text = script.trim();
+  const normalized = normalize(text);
+
+  const length = countScriptLength(text);
+  if (length < MIN_LENGTH || length > MAX_LENGTH) {
+    issues.push({ rule: "length", level: "error", message: `字数为 ${length}，要求 ${MIN_LENGTH}-${MAX_LENGTH} 字` });
+  }
+
+  if (!text.endsWith(ENDING_MARK)) {
+    issues.push({ rule: "ending", level: "error", message: `剧本必须以${ENDING_MARK}结尾` });
+  }
+
+  if (episode.openingHook) {
+    const hook = bigrams(episode.openingHook);
+    const head = bigrams(Array.from(text).slice(0, OPENING_WINDOW).join(""));
+    const matched = [...hook].filter((b) => head.has(b)).length;
+    if (hook.size && matched / hook.size < OPENING_THRESHOLD) {
+      issues.push({ rule: "openingHook", level: "error", message: `第一个镜头未呈现开场镜头：${episode.openingHook}` });
+    }
+  }
+
+  for (const quote of episode.classicQuotes ?? []) {
+    if (quote && !normalized.includes(normalize(quote))) {
+      issues.push({ rule: "classicQuote", level: "error", message: `缺少经典台词：「${quote}」` });
+    }
+  }
+
+  const groups: Array<[string, Array<{ name: string }> | undefined]> = [
+    ["场景", episode.scenes],
+    ["角色", episode.characters],
+    ["道具", episode.props],
+  ];
+  for (const [label, items] of groups) {
+    const names = (items ?? []).map((i) => i.name).filter(Boolean);
+    const missing = names.filter((name) => !text.includes(name));
+    if (missing.length) {
+      issues.push({ rule: "asset", level: "error", message: `未出现的${label}：${missing.join("、")}` });
+    }
+
+    // 按出场顺序检查（只比较已出现的）
+    const present = names.filter((name) => text.includes(name));
+    const positions = present.map((name) => text.indexOf(name));
+    const disordered = present.filter((_, i) => i > 0 && positions[i] < positions[i - 1]);
+    if (disordered.length) {
+      issues.push({ rule: "assetOrder", level: "warning", message: `${label}出场顺序与大纲不一致：${disordered.join("、")}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 将违反项整理为反馈给模型的修改要求
+ */
+export function formatLintFeedback(issues: LintIssue[]) {
+  return issues.map((issue, i) => `${i + 1}. ${issue.level === "error" ? "[必须修正]" : "[建议修正]"} ${issue.message}`).join("\n");
+}
@@ -0,0 +1,112 @@
+import u from "@/utils";
+import type { Knex } from "knex";
+import { db } from "@/utils/db";
+import type { DB } from "@/types/database";
+import { parseScreenplay } from "@/utils/screenplay";
+import { diffLines } from "@/utils/textDiff";
+
+export type RevisionSource = "generate" | "repair" | "manual" | "import" | "merge" | "restore";
+
+export interface RevisionMeta {
+  source: RevisionSource;
+  author: string | null; // AI 生成为 "ai"，手动编辑为用户ID
+  restoreFrom?: number | null; // 恢复时记录来源修订
+}
+
+export const AI_AUTHOR = "ai";
+
+/**
+ * 接口请求中的当前用户，作为手动编辑的作者
+ */
+export function requestAuthor(req: unknown) {
+  const id = (req as any)?.user?.id;
+  return id != null ? String(id) : null;
+}
+
+/**
+ * 剧本还没有修订记录但已有内容时（修订功能上线前的数据），补一条基线修订，保证覆盖前的内容可以恢复
+ */
+export async function ensureBaselineRevision(script: DB["t_script"], trx: Knex = db) {
+  if (!script.content) return;
+  const exists = await trx("t_scriptRevision").where("scriptId", script.id!).first();
+  if (exists) return;
+  await trx("t_scriptRevision").insert({
+    scriptId: script.id,
+    projectId: script.projectId,
+    content: script.content,
+    source: "manual",
+    author: null,
+    createTime: Date.now(),
+  });
+}
+
+async function recordScriptRevision(script: DB["t_script"], content: string, meta: RevisionMeta, trx: Knex) {
+  await ensureBaselineRevision(script, trx);
+  const [id] = await trx("t_scriptRevision").insert({
+    scriptId: script.id,
+    projectId: script.projectId,
+    content,
+    source: meta.source,
+    author: meta.author,
+    restoreFrom: meta.restoreFrom ?? null,
+    createTime: Date.now(),
+  });
+  return id;
+}
+
+/**
+ * 保存剧本内容并同步解析后的结构，所有写入剧本内容的地方都应经过这里。
+ * 传入 revision 时记录为一条修订；生成过程中的中间保存不传。在事务中调用时传入 trx
+ */
+export async function saveScriptContent(
+  scriptId: number,
+  content: string,
+  revision?: RevisionMeta,
+  fields: Partial<DB["t_script"]> = {},
+  trx: Knex = db,
+) {
+  if (revision) {
+    const script = await trx("t_script").where("id", scriptId).first();
+    if (script) await recordScriptRevision(script, content, revision, trx);
+  }
+  const structure = parseScreenplay(content);
+  await trx("t_script")
+    .where("id", scriptId)
+    .update({ ...fields, content, structure: JSON.stringify(structure) });
+  return structure;
+}
+
+/**
+ * 恢复剧本到指定修订，恢复本身也记录为一条新修订
+ */
+export async function restoreScriptRevision(revisionId: number, author: string | null) {
+  const revision = await u.db("t_scriptRevision").where("id", revisionId).first();
+  if (!revision) throw new Error("修订不存在");
+  const script = await u.db("t_script").where("id", revision.scriptId!).first();
+  if (!script) throw new Error("剧本不存在");
+
+  const content = revision.content ?? "";
+  await saveScriptContent(script.id!, content, { source: "restore", author, restoreFrom: revisionId });
+  return { scriptId: script.id!, content };
+}
+
+/**
+ * 逐行比对剧本的两个修订，未传 toRevisionId 时与当前内容比对
+ */
+export async function diffScriptRevisions(fromRevisionId: number, toRevisionId?: number) {
+  const from = await u.db("t_scriptRevision").where("id", fromRevisionId).first();
+  if (!from) throw new Error("修订不存在");
+
+  let toContent: string;
+  if (toRevisionId) {
+    const to = await u.db("t_scriptRevision").where("id", toRevisionId).first();
+    if (!to) throw new Error("修订不存在");
+    if (to.scriptId !== from.scriptId) throw new Error("只能比对同一剧本的修订");
+    toContent = to.content ?? "";
+  } else {
+    const script = await u.db("t_script").where("id", from.scriptId!).select("content").first();
+    toContent = script?.content ?? "";
+  }
+
+  return { scriptId: from.scriptId!, lines: diffLines(from.content ?? "", toContent) };
+}
@@ -0,0 +1,109 @@
+import u from "@/utils";
+import { db } from "@/utils/db";
+
+export interface NovelSearchHit {
+  id: number;
+  chapterIndex: number;
+  reel: string;
+  chapter: string;
+  occurrences: number; // 关键词在本章出现的总次数
+  snippets: string[]; // 带高亮标记的上下文片段
+}
+
+export interface NovelSearchOptions {
+  limit?: number;
+  offset?: number;
+  snippetCount?: number; // 每章最多返回的片段数
+  snippetRadius?: number; // 片段中关键词前后保留的字符数
+  highlight?: [string, string]; // 高亮标记
+  html?: boolean; // 片段按 HTML 返回，正文会先转义，默认开启
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+/**
+ * 在章节正文中截取关键词上下文片段并高亮
+ */
+function buildSnippets(
+  content: string,
+  terms: string[],
+  options: Required<Pick<NovelSearchOptions, "snippetCount" | "snippetRadius" | "highlight" | "html">>,
+) {
+  const { snippetCount, snippetRadius, highlight, html } = options;
+  const escape = (text: string) => (html ? escapeHtml(text) : text);
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+  const positions = Array.from(content.matchAll(pattern), (m) => m.index!);
+
+  const snippets: string[] = [];
+  let lastEnd = -1;
+  for (const pos of positions) {
+    if (snippets.length >= snippetCount) break;
+    if (pos < lastEnd) continue; // 与上一个片段重叠的命中合并展示
+    const start = Math.max(0, pos - snippetRadius);
+    const end = Math.min(content.length, pos + snippetRadius);
+    // 按命中切分后分别转义，高亮标记本身不转义
+    const text = content
+      .slice(start, end)
+      .replace(/\s+/g, " ")
+      .split(new RegExp(`(${pattern.source})`, "gi"))
+      .map((part, i) => (i % 2 ? `${highlight[0]}${escape(part)}${highlight[1]}` : escape(part)))
+      .join("");
+    snippets.push(`${start > 0 ? "…" : ""}${text}${end < content.length ? "…" : ""}`);
+    lastEnd = end;
+  }
+  return { occurrences: positions.length, snippets };
+}
+
+async function hasFTS(): Promise<boolean> {
+  return u.db.schema.hasTable("t_novel_fts");
+}
+
+/**
+ * 全文检索项目原文，按章节顺序返回命中章节（第一条即关键词首次出现的章节）
+ * @param projectId 项目ID
+ * @param keyword 关键词，空格分隔多个词时要求同时出现
+ * @param options 分页与片段选项
+ */
+export default async function searchNovel(projectId: number, keyword: string, options: NovelSearchOptions = {}) {
+  const { limit = 20, offset = 0, snippetCount = 3, snippetRadius = 40, highlight = ["<mark>", "</mark>"], html = true } = options;
+  const terms = keyword.split(/\s+/).filter(Boolean);
+  if (!terms.length) return { total: 0, hits: [] as NovelSearchHit[] };
+
+  // trigram 分词只能匹配不少于3个字符的词，较短的词回退为 LIKE
+  const useFTS = terms.every((t) => Array.from(t).length >= 3) && (await hasFTS());
+
+  let ids: number[];
+  if (useFTS) {
+    const match = terms.map((t) => `"${t.replace(/"/g, '""')}"`).join(" AND ");
+    const rows = await db.raw(`SELECT rowid AS id FROM t_novel_fts WHERE t_novel_fts MATCH ? AND projectId = ? ORDER BY chapterIndex ASC`, [match, projectId]);
+    ids = rows.map((r: { id: number }) => r.id);
+  } else {
+    const query = u.db("t_novel").where("projectId", projectId).select("id").orderBy("chapterIndex", "asc");
+    for (const term of terms) {
+      const like = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+      query.where((qb) => qb.whereRaw("chapterData LIKE ? ESCAPE '\\'", [like]).orWhereRaw("chapter LIKE ? ESCAPE '\\'", [like]));
+    }
+    ids = (await query).map((r) => r.id!);
+  }
+
+  const pageIds = ids.slice(offset, offset + limit);
+  const rows = pageIds.length
+    ? await u.db("t_novel").whereIn("id", pageIds).select("id", "chapterIndex", "reel", "chapter", "chapterData").orderBy("chapterIndex", "asc")
+    : [];
+
+  const hits: NovelSearchHit[] = rows.map((row) => ({
+    id: row.id!,
+    chapterIndex: row.chapterIndex!,
+    reel: row.reel ?? "",
+    chapter: row.chapter ?? "",
+    ...buildSnippets(row.chapterData ?? "", terms, { snippetCount, snippetRadius, highlight, html }),
+  }));
+
+  return { total: ids.length, hits };
+}
@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import u from "@/utils";
+import type { DB } from "@/types/database";
+
+type SourceHash = Record<number, string>;
+
+export function hashChapter(chapterData: string | null | undefined) {
+  return crypto
+    .createHash("md5")
+    .update(chapterData ?? "")
+    .digest("hex");
+}
+
+function parseSourceHash(value: string | null | undefined): SourceHash {
+  try {
+    return JSON.parse(value || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function parseChapterRange(data: string | null | undefined): number[] {
+  try {
+    const range = JSON.parse(data || "{}").chapterRange;
+    return Array.isArray(range) ? range.map(Number).filter((n) => !isNaN(n)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 获取项目指定章节当前的正文哈希，缺失的哈希会顺带回填
+ */
+export async function getChapterHashes(projectId: number, chapterRange: number[]): Promise<SourceHash> {
+  if (!chapterRange.length) return {};
+  const rows = await u.db("t_novel").where("projectId", projectId).whereIn("chapterIndex", chapterRange).select("id", "chapterIndex", "chapterData", "contentHash");
+
+  const hashes: SourceHash = {};
+  for (const row of rows) {
+    if (!row.contentHash) {
+      row.contentHash = hashChapter(row.chapterData);
+      await u.db("t_novel").where("id", row.id).update({ contentHash: row.contentHash });
+    }
+    hashes[row.chapterIndex!] = row.contentHash;
+  }
+  return hashes;
+}
+
+/**
+ * 大纲保存后记录其依据的章节哈希，并清除过期标记
+ */
+export async function recordOutlineSource(outlineIds: number[]) {
+  const outlines = await u.db("t_outline").whereIn("id", outlineIds).select("id", "projectId", "data");
+  for (const outline of outlines) {
+    const sourceHash = await getChapterHashes(outline.projectId!, parseChapterRange(outline.data));
+    await u
+      .db("t_outline")
+      .where("id", outline.id)
+      .update({ sourceHash: JSON.stringify(sourceHash), stale: 0 });
+  }
+}
+
+/**
+ * 剧本生成后记录其依据的章节哈希，并清除过期标记
+ */
+export async function recordScriptSource(scriptId: number) {
+  const script = await u.db("t_script").where("id", scriptId).select("projectId", "outlineId").first();
+  if (!script) return;
+  const outline = await u.db("t_outline").where("id", script.outlineId!).select("data").first();
+  const sourceHash = await getChapterHashes(script.projectId!, parseChapterRange(outline?.data));
+  await u
+    .db("t_script")
+    .where("id", scriptId)
+    .update({ sourceHash: JSON.stringify(sourceHash), stale: 0 });
+}
+
+/**
+ * 判断依据的章节哈希是否与当前一致；没有记录的章节以 fallback 作为当时的版本
+ */
+function checkStale(sourceHash: SourceHash, current: SourceHash, chapterIndex: number, fallback: string) {
+  if (!sourceHash[chapterIndex]) sourceHash[chapterIndex] = fallback;
+  return Object.entries(sourceHash).some(([idx, hash]) => current[Number(idx)] !== undefined && current[Number(idx)] !== hash);
+}
+
+/**
+ * 原文修改后调用：保存修改前版本，并把依赖该章节的大纲、剧本、分镜标记为过期
+ * @param before 修改前的原文记录
+ * @returns 新标记为过期的数量
+ */
+export async function markChapterChanged(before: DB["t_novel"]) {
+  const after = await u.db("t_novel").where("id", before.id).select("chapterIndex", "chapterData").first();
+  if (!after) return { outlines: 0, scripts: 0, storyboards: 0 };
+
+  const oldHash = before.contentHash || hashChapter(before.chapterData);
+  const newHash = hashChapter(after.chapterData);
+  await u.db("t_novel").where("id", before.id).update({ contentHash: newHash });
+  // 章节序号改变时，原序号与新序号对应的正文都已不同
+  const oldIndex = before.chapterIndex!;
+  const moved = oldIndex !== after.chapterIndex;
+  if (oldHash === newHash && !moved) return { outlines: 0, scripts: 0, storyboards: 0 };
+
+  if (oldHash !== newHash) {
+    await u.db("t_chapterSummary").where("novelId", before.id).del();
+
+    // 保留修改前的正文，供过期列表展示差异
+    const saved = await u.db("t_novelHistory").where({ novelId: before.id, contentHash: oldHash }).first();
+    if (!saved) {
+      await u.db("t_novelHistory").insert({
+        novelId: before.id,
+        projectId: before.projectId,
+        chapterIndex: before.chapterIndex,
+        chapter: before.chapter,
+        chapterData: before.chapterData,
+        contentHash: oldHash,
+        createTime: Date.now(),
+      });
+    }
+  }
+
+  const indexes = moved ? [oldIndex, after.chapterIndex!] : [oldIndex];
+  const outlines = (await u.db("t_outline").where("projectId", before.projectId!).select("id", "data", "sourceHash", "stale")).filter((o) =>
+    parseChapterRange(o.data).some((idx) => indexes.includes(idx)),
+  );
+  if (!outlines.length) return { outlines: 0, scripts: 0, storyboards: 0 };
+
+  const current = await getChapterHashes(before.projectId!, [...new Set(outlines.flatMap((o) => parseChapterRange(o.data)))]);
+  let outlineCount = 0;
+  for (const outline of outlines) {
+    const sourceHash = parseSourceHash(outline.sourceHash);
+    const stale = moved || checkStale(sourceHash, current, oldIndex, oldHash) ? 1 : 0;
+    if (stale && !outline.stale) outlineCount++;
+    await u
+      .db("t_outline")
+      .where("id", outline.id)
+      .update({ sourceHash: JSON.stringify(sourceHash), stale });
+  }
+
+  const scripts = await u
+    .db("t_script")
+    .whereIn(
+      "outlineId",
+      outlines.map((o) => o.id!),
+    )
+    .select("id", "content", "sourceHash", "stale");
+  const staleScriptIds: number[] = [];
+  let scriptCount = 0;
+  for (const script of scripts) {
+    if (!script.content) continue; // 尚未生成的剧本不存在过期问题
+    const sourceHash = parseSourceHash(script.sourceHash);
+    const stale = moved || checkStale(sourceHash, current, oldIndex, oldHash) ? 1 : 0;
+    if (stale) staleScriptIds.push(script.id!);
+    if (stale && !script.stale) scriptCount++;
+    await u
+      .db("t_script")
+      .where("id", script.id)
+      .update({ sourceHash: JSON.stringify(sourceHash), stale });
+  }
+
+  const storyboards = staleScriptIds.length
+    ? await u.db("t_assets").whereIn("scriptId", staleScriptIds).where("type", "分镜").where((qb) => qb.whereNull("stale").orWhere("stale", 0)).update({ stale: 1 })
+    : 0;
+
+  return { outlines: outlineCount, scripts: scriptCount, storyboards };
+}
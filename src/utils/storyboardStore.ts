@@ -0,0 +1,245 @@
+import u from "@/utils";
+import type { Knex } from "knex";
+import { db } from "@/utils/db";
+import { z } from "zod";
+
+export interface Segment {
+  index: number;
+  description: string;
+  emotion?: string;
+  action?: string;
+}
+
+export interface AssetsType {
+  type: "role" | "props" | "scene";
+  text: string;
+}
+
+export const shotMetaSchema = z.object({
+  shotSize: z.string().optional().describe("景别：大远景、远景、全景、中景、近景、特写、大特写"),
+  cameraAngle: z.string().optional().describe("机位角度：平视、俯拍、仰拍、顶拍、过肩、主观视角等"),
+  cameraMovement: z.string().optional().describe("运镜：固定、推、拉、摇、移、跟、升降、环绕等"),
+  duration: z.number().optional().describe("计划时长（秒）"),
+  characters: z.array(z.string()).optional().describe("画面中出现的角色"),
+  dialogue: z.string().optional().describe("台词或旁白，格式为 角色：台词，旁白写作 旁白：内容"),
+});
+
+export type ShotMeta = z.infer<typeof shotMetaSchema>;
+
+export interface ShotCell extends ShotMeta {
+  src?: string;
+  prompt?: string;
+  id?: string;
+}
+
+export interface Shot {
+  id: number; // 分镜独立ID
+  segmentId: number; // 所属片段ID
+  title: string;
+  x: number;
+  y: number;
+  cells: ShotCell[]; // 镜头数组，每个cell是一个镜头
+  fragmentContent: string;
+  assetsTags: AssetsType[];
+}
+
+/**
+ * 将镜头信息拼成一行说明，供视频提示词生成与导出使用
+ */
+export function describeShotMeta(meta: ShotMeta) {
+  return [
+    meta.shotSize && `景别：${meta.shotSize}`,
+    meta.cameraAngle && `角度：${meta.cameraAngle}`,
+    meta.cameraMovement && `运镜：${meta.cameraMovement}`,
+    meta.duration != null && `时长：${meta.duration}秒`,
+    meta.characters?.length && `角色：${meta.characters.join("、")}`,
+    meta.dialogue && `台词：${meta.dialogue}`,
+  ]
+    .filter(Boolean)
+    .join("；");
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * 解析资产中保存的镜头信息，格式不正确时视为没有
+ */
+export function parseShotMeta(value: string | null | undefined): ShotMeta | null {
+  const result = shotMetaSchema.safeParse(parseJson(value, null));
+  return result.success ? result.data : null;
+}
+
+/**
+ * 读取剧本已保存的片段与分镜
+ */
+export async function loadStoryboard(scriptId: number): Promise<{ segments: Segment[]; shots: Shot[] }> {
+  const segmentRows = await u.db("t_storyboardSegment").where("scriptId", scriptId).orderBy("segmentIndex", "asc");
+  const shotRows = await u.db("t_storyboardShot").where("scriptId", scriptId).orderBy("shotId", "asc");
+
+  const segments = segmentRows.map((row) => ({
+    index: row.segmentIndex!,
+    description: row.description ?? "",
+    ...(row.emotion != null && { emotion: row.emotion }),
+    ...(row.action != null && { action: row.action }),
+  }));
+  const shots = shotRows.map((row) => ({
+    id: row.shotId!,
+    segmentId: row.segmentId!,
+    title: row.title ?? "",
+    x: row.x ?? 0,
+    y: row.y ?? 0,
+    cells: parseJson<ShotCell[]>(row.cells, []),
+    fragmentContent: row.fragmentContent ?? "",
+    assetsTags: parseJson<AssetsType[]>(row.assetsTags, []),
+  }));
+  return { segments, shots };
+}
+
+/**
+ * 覆盖保存剧本的片段
+ */
+export async function saveSegments(projectId: number, scriptId: number, segments: Segment[]) {
+  await db.transaction(async (trx) => {
+    await trx("t_storyboardSegment").where("scriptId", scriptId).del();
+    for (const segment of segments) {
+      await trx("t_storyboardSegment").insert({
+        projectId,
+        scriptId,
+        segmentIndex: segment.index,
+        description: segment.description,
+        emotion: segment.emotion ?? null,
+        action: segment.action ?? null,
+      });
+    }
+  });
+}
+
+/**
+ * 覆盖保存剧本的分镜
+ */
+export async function saveShots(projectId: number, scriptId: number, shots: Shot[]) {
+  await db.transaction(async (trx) => {
+    await trx("t_storyboardShot").where("scriptId", scriptId).del();
+    for (const shot of shots) {
+      await trx("t_storyboardShot").insert({
+        projectId,
+        scriptId,
+        shotId: shot.id,
+        segmentId: shot.segmentId,
+        title: shot.title,
+        x: shot.x,
+        y: shot.y,
+        cells: JSON.stringify(shot.cells),
+        fragmentContent: shot.fragmentContent ?? "",
+        assetsTags: JSON.stringify(shot.assetsTags ?? []),
+      });
+    }
+  });
+}
+
+/**
+ * 读取已保存的镜头信息：先按镜头ID在剧本分镜中查找，找不到时按资产ID读取已保存到分镜资产的信息
+ */
+export async function findShotMeta(scriptId: number | null, id: string): Promise<ShotMeta> {
+  if (scriptId) {
+    const rows = await u.db("t_storyboardShot").where("scriptId", scriptId).select("cells");
+    for (const row of rows) {
+      const cell = parseJson<ShotCell[]>(row.cells, []).find((c) => c.id === id);
+      if (cell) return shotMetaSchema.safeParse(cell).data ?? {};
+    }
+  }
+  const assetId = Number(id);
+  if (!Number.isInteger(assetId)) return {};
+  const asset = await u.db("t_assets").where({ id: assetId, type: "分镜" }).select("shotMeta").first();
+  return parseShotMeta(asset?.shotMeta) ?? {};
+}
+
+/**
+ * 合并剧本时将片段和分镜并入保留的剧本，片段序号和分镜ID接在保留剧本之后
+ */
+export async function mergeStoryboard(fromScriptId: number, toScriptId: number, trx: Knex = db) {
+  const maxSegment = await trx("t_storyboardSegment").where("scriptId", toScriptId).max("segmentIndex as max").first();
+  const maxShot = await trx("t_storyboardShot").where("scriptId", toScriptId).max("shotId as max").first();
+  const segmentOffset = maxSegment?.max ?? 0;
+  const shotOffset = maxShot?.max ?? 0;
+
+  const segments = await trx("t_storyboardSegment").where("scriptId", fromScriptId).select("id", "segmentIndex");
+  for (const segment of segments) {
+    await trx("t_storyboardSegment")
+      .where("id", segment.id)
+      .update({ scriptId: toScriptId, segmentIndex: segment.segmentIndex + segmentOffset });
+  }
+  // 分镜的 segmentId 为片段下标（从0开始），随片段序号一起偏移
+  const shots = await trx("t_storyboardShot").where("scriptId", fromScriptId).select("id", "shotId", "segmentId", "title");
+  for (const shot of shots) {
+    const shotId = shot.shotId + shotOffset;
+    await trx("t_storyboardShot")
+      .where("id", shot.id)
+      .update({
+        scriptId: toScriptId,
+        shotId,
+        segmentId: shot.segmentId + segmentOffset,
+        title: shot.title === `分镜 ${shot.shotId}` ? `分镜 ${shotId}` : shot.title,
+      });
+  }
+}
+
+/**
+ * 修改单个镜头的提示词与镜头信息，未传的字段保持原值
+ */
+export async function updateShotCell(scriptId: number, shotId: number, cellId: string, patch: ShotMeta & { prompt?: string }) {
+  const row = await u.db("t_storyboardShot").where({ scriptId, shotId }).first();
+  if (!row) throw new Error("分镜不存在");
+  const cells = parseJson<ShotCell[]>(row.cells, []);
+  const index = cells.findIndex((cell) => cell.id === cellId);
+  if (index === -1) throw new Error("镜头不存在");
+
+  cells[index] = { ...cells[index], ...patch };
+  await u
+    .db("t_storyboardShot")
+    .where("id", row.id!)
+    .update({ cells: JSON.stringify(cells) });
+  return cells[index];
+}
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 导出剧本的分镜镜头表（CSV），每个镜头一行
+ */
+export async function exportShotList(scriptId: number) {
+  const { shots } = await loadStoryboard(scriptId);
+  if (!shots.length) throw new Error("剧本还没有分镜");
+
+  const header = ["分镜", "镜头", "景别", "角度", "运镜", "时长（秒）", "角色", "台词/旁白", "画面提示词"];
+  const rows = shots.flatMap((shot) =>
+    shot.cells.map((cell, i) => [
+      shot.title,
+      String(i + 1),
+      cell.shotSize ?? "",
+      cell.cameraAngle ?? "",
+      cell.cameraMovement ?? "",
+      cell.duration != null ? String(cell.duration) : "",
+      (cell.characters ?? []).join("、"),
+      cell.dialogue ?? "",
+      cell.prompt ?? "",
+    ]),
+  );
+  // 带 BOM，Excel 打开中文不乱码
+  const content = "\ufeff" + [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+  const script = await u
+    .db("t_script")
+    .leftJoin("t_outline", "t_script.outlineId", "t_outline.id")
+    .where("t_script.id", scriptId)
+    .select("t_outline.episode")
+    .first();
+  return { fileName: `${script?.episode ? `第${script.episode}集` : ""}分镜表.csv`, content };
+}
@@ -0,0 +1,137 @@
+import u from "@/utils";
+import { z } from "zod";
+import type { DB } from "@/types/database";
+import { formatRanges } from "@/utils/outlineCoverage";
+
+export const arcSchema = z.object({
+  title: z.string().describe("弧线标题"),
+  chapterRange: z.array(z.number()).describe("覆盖的章节号，按升序排列，如 [12, 13, 14]"),
+  characters: z.array(z.string()).describe("主要涉及的角色名"),
+  summary: z.string().describe("弧线剧情概要：起因、发展、结果"),
+});
+
+export const actSchema = z.object({
+  title: z.string().describe("幕标题，如 第一幕：落魄少年"),
+  chapterRange: z.array(z.number()).describe("本幕覆盖的章节号，按升序排列"),
+  summary: z.string().describe("本幕剧情概要"),
+  arcs: z.array(arcSchema).describe("本幕包含的剧情弧线，按时间顺序排列"),
+});
+
+export const storylineStructureSchema = z.object({
+  summary: z.string().describe("故事线总述"),
+  acts: z.array(actSchema).describe("按时间顺序排列的幕"),
+});
+
+export type StorylineType = "main" | "subplot";
+export type StorylineStructure = z.infer<typeof storylineStructureSchema>;
+
+export interface StorylineItem {
+  id: number;
+  name: string;
+  type: StorylineType;
+  content: string;
+  structure: StorylineStructure | null; // 旧数据只有纯文本内容，没有结构
+}
+
+export interface SaveStorylineInput {
+  id?: number;
+  name?: string;
+  type?: StorylineType;
+  content?: string;
+  structure?: StorylineStructure | null;
+}
+
+/**
+ * 弧线编号：故事线ID-幕序号-弧线序号，大纲通过该编号关联到弧线
+ */
+export function arcCode(storylineId: number, actIndex: number, arcIndex: number) {
+  return `${storylineId}-${actIndex + 1}-${arcIndex + 1}`;
+}
+
+function parseStructure(value: string | null | undefined): StorylineStructure | null {
+  if (!value) return null;
+  try {
+    return storylineStructureSchema.parse(JSON.parse(value));
+  } catch {
+    return null;
+  }
+}
+
+function toItem(row: DB["t_storyline"]): StorylineItem {
+  return {
+    id: row.id!,
+    name: row.name || (row.type === "subplot" ? "支线" : "主线"),
+    type: row.type === "subplot" ? "subplot" : "main",
+    content: row.content ?? "",
+    structure: parseStructure(row.structure),
+  };
+}
+
+/**
+ * 将结构化故事线渲染为文本，写入 content 供仍按纯文本读取的地方使用
+ */
+export function renderStoryline(item: Pick<StorylineItem, "id" | "name" | "type" | "structure"> & { content?: string }) {
+  if (!item.structure) return item.content ?? "";
+  const lines = [`【${item.type === "main" ? "主线" : "支线"}】${item.name}`, item.structure.summary];
+  item.structure.acts.forEach((act, actIdx) => {
+    lines.push("", `${act.title}（第${formatRanges(act.chapterRange)}章）`, act.summary);
+    act.arcs.forEach((arc, arcIdx) => {
+      lines.push(
+        `  [${arcCode(item.id, actIdx, arcIdx)}] ${arc.title}（第${formatRanges(arc.chapterRange)}章；角色：${arc.characters.join("、") || "无"}）`,
+        `    ${arc.summary}`,
+      );
+    });
+  });
+  return lines.join("\n");
+}
+
+/**
+ * 获取项目的全部故事线，主线在前
+ */
+export async function findStorylines(projectId: number): Promise<StorylineItem[]> {
+  const rows = await u.db("t_storyline").where("projectId", projectId).orderBy("id", "asc");
+  const items = rows.map(toItem);
+  return [...items.filter((i) => i.type === "main"), ...items.filter((i) => i.type === "subplot")];
+}
+
+/**
+ * 保存故事线：指定 id 时更新该条；未指定时主线覆盖已有主线，支线新增一条
+ */
+export async function saveStoryline(projectId: number, input: SaveStorylineInput) {
+  const type = input.type ?? "main";
+  let existing: DB["t_storyline"] | undefined;
+  if (input.id) {
+    existing = await u.db("t_storyline").where({ id: input.id, projectId }).first();
+    if (!existing) throw new Error(`故事线不存在: ${input.id}`);
+  } else if (type === "main") {
+    // 旧数据没有 type，视为主线
+    existing = await u
+      .db("t_storyline")
+      .where({ projectId })
+      .where((qb) => qb.where("type", "main").orWhereNull("type"))
+      .first();
+  }
+
+  // 只传纯文本内容时按自由文本保存，清除原有结构
+  let structure = existing?.structure ?? null;
+  if (input.structure !== undefined) structure = input.structure ? JSON.stringify(input.structure) : null;
+  else if (input.content !== undefined) structure = null;
+
+  const fields = {
+    name: input.name ?? existing?.name ?? (type === "main" ? "主线" : "支线"),
+    type: input.type ?? existing?.type ?? type,
+    structure,
+  };
+
+  let id = existing?.id;
+  if (id) {
+    await u.db("t_storyline").where("id", id).update(fields);
+  } else {
+    [id] = await u.db("t_storyline").insert({ projectId, ...fields });
+  }
+
+  const item = toItem({ id, ...fields });
+  const content = item.structure ? renderStoryline(item) : (input.content ?? existing?.content ?? "");
+  await u.db("t_storyline").where("id", id).update({ content });
+  return { ...item, content };
+}
@@ -0,0 +1,108 @@
+export interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+}
+
+// 超过该规模（行数乘积）时不再逐行比对，整体视为替换
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitLines(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trimEnd())
+    .filter((l) => l.trim());
+}
+
+/**
+ * 按行比对两段文本（LCS），返回逐行的增删结果，空行不参与比对
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // 先去掉公共首尾，缩小比对范围
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map((text) => ({ type: "equal", text }));
+  const tail: DiffLine[] = a.slice(endA).map((text) => ({ type: "equal", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: "remove", text })),
+      ...midB.map((text): DiffLine => ({ type: "add", text })),
+      ...tail,
+    ];
+  }
+
+  const n = midA.length;
+  const m = midB.length;
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const body: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      body.push({ type: "equal", text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      body.push({ type: "remove", text: midA[i++] });
+    } else {
+      body.push({ type: "add", text: midB[j++] });
+    }
+  }
+  while (i < n) body.push({ type: "remove", text: midA[i++] });
+  while (j < m) body.push({ type: "add", text: midB[j++] });
+
+  return [...head, ...body, ...tail];
+}
+
+/**
+ * 折叠未变化的行，只保留改动处前后 context 行，被折叠的部分以 "…" 代替
+ */
+export function compactDiff(lines: DiffLine[], context = 2): DiffLine[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, idx) => {
+    if (line.type === "equal") return;
+    for (let k = Math.max(0, idx - context); k <= Math.min(lines.length - 1, idx + context); k++) keep[k] = true;
+  });
+
+  const result: DiffLine[] = [];
+  let folded = false;
+  lines.forEach((line, idx) => {
+    if (keep[idx]) {
+      result.push(line);
+      folded = false;
+    } else if (!folded) {
+      result.push({ type: "equal", text: "…" });
+      folded = true;
+    }
+  });
+  return result;
+}
+
+/**
+ * 统计增删行数
+ */
+export function diffStats(lines: DiffLine[]) {
+  return {
+    added: lines.filter((l) => l.type === "add").length,
+    removed: lines.filter((l) => l.type === "remove").length,
+  };
+}
@@ -0,0 +1,100 @@
+import { v4 as uuid } from "uuid";
+import type { Tool } from "ai";
+import type AgentRun from "@/utils/agentRun";
+
+export type PermissionMode = "auto" | "confirm";
+
+type ApprovalResult = "approved" | "denied" | "timeout" | "aborted";
+
+interface PendingApproval {
+  resolve: (result: ApprovalResult) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 等待用户确认的默认超时时间，超时视为拒绝
+const APPROVAL_TIMEOUT = 2 * 60 * 1000;
+
+// 会删除或覆盖已有数据的工具
+const DESTRUCTIVE_TOOLS = ["deleteOutline", "deleteStoryline", "mergeOutline", "deleteShots"];
+
+/**
+ * 是否为需要用户确认后执行的危险工具，saveOutline 仅在覆盖已有大纲时需要确认
+ */
+export function isDestructiveTool(name: string, input: any) {
+  if (name === "saveOutline") return input?.overwrite !== false;
+  return DESTRUCTIVE_TOOLS.includes(name);
+}
+
+/**
+ * 危险工具的执行确认：confirm 模式下发起确认请求并等待前端批准/拒绝
+ */
+export default class ToolApproval {
+  mode: PermissionMode = "confirm";
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(
+    private readonly emit: (event: string, data?: any) => void,
+    private readonly timeout = APPROVAL_TIMEOUT,
+  ) {}
+
+  /**
+   * 请求执行确认
+   * @returns 是否批准执行；auto 模式直接批准
+   */
+  async request(agent: string, name: string, args: unknown): Promise<boolean> {
+    if (this.mode === "auto") return true;
+
+    const id = uuid();
+    const result = await new Promise<ApprovalResult>((resolve) => {
+      const timer = setTimeout(() => this.settle(id, "timeout"), this.timeout);
+      this.pending.set(id, { resolve, timer });
+      this.emit("approvalRequest", { id, agent, name, args, timeout: this.timeout });
+    });
+    return result === "approved";
+  }
+
+  /**
+   * 包装工具：中止后不再执行，危险操作先请求确认，执行完成的记录到本次调用
+   * @param subAgents Sub-Agent 工具名，其内部的工具会单独记录，自身不计入已执行操作
+   */
+  guard<T extends Record<string, Tool>>(tools: T, agent: string, run: AgentRun, subAgents: string[]): T {
+    const guarded = Object.entries(tools).map(([name, t]) => {
+      const execute = async (input: any, options: any) => {
+        if (run.aborted) return "任务已被用户中止，未执行该操作";
+        if (isDestructiveTool(name, input) && !(await this.request(agent, name, input))) {
+          return run.aborted ? "任务已被用户中止，未执行该操作" : `用户未批准执行 ${name}，操作已取消。请向用户说明情况，不要重复尝试`;
+        }
+        const result = await t.execute!(input, options);
+        if (!subAgents.includes(name)) run.record(agent, name, input);
+        return result;
+      };
+      return [name, { ...t, execute }];
+    });
+    return Object.fromEntries(guarded) as T;
+  }
+
+  /**
+   * 处理前端的确认结果
+   * @returns 请求是否仍在等待（已超时或已取消时返回 false）
+   */
+  respond(id: string, approved: boolean): boolean {
+    return this.settle(id, approved ? "approved" : "denied");
+  }
+
+  /**
+   * 拒绝所有等待中的请求（任务中止或连接断开时调用）
+   */
+  cancelAll() {
+    for (const id of [...this.pending.keys()]) this.settle(id, "aborted");
+  }
+
+  private settle(id: string, result: ApprovalResult) {
+    const item = this.pending.get(id);
+    if (!item) return false;
+    clearTimeout(item.timer);
+    this.pending.delete(id);
+    this.emit("approvalResult", { id, result });
+    item.resolve(result);
+    return true;
+  }
+}
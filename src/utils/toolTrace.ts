@@ -0,0 +1,98 @@
+import u from "@/utils";
+import type { TextStreamPart, ToolSet } from "ai";
+
+export interface ToolTrace {
+  agent: string; // 发起调用的 Agent（main 或 Sub-Agent 名称）
+  id: string; // toolCallId
+  name: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+  duration: number; // 毫秒
+  startTime: number;
+}
+
+export interface TraceSession {
+  projectId: number;
+  type: "outlineAgent" | "storyboardAgent";
+  threadId?: number | null;
+  scriptId?: number | null;
+}
+
+// 入库时结果保留的最大字符数
+const MAX_STORE_CHARS = 20000;
+// 推送给前端时结果保留的最大字符数
+const MAX_STREAM_CHARS = 2000;
+
+function stringify(value: unknown) {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max)}…(共${text.length}字符)` : text;
+}
+
+/**
+ * 从流中提取工具调用：调用时推送 toolCall，完成或出错时推送带结果与耗时的 toolResult
+ */
+export class ToolTracer {
+  // 进行中的工具调用开始时间，按 toolCallId 记录
+  private starts = new Map<string, number>();
+
+  constructor(private readonly emit: (event: string, data?: any) => void) {}
+
+  trace(item: TextStreamPart<ToolSet>, agent: string) {
+    if (item.type == "tool-call") {
+      this.starts.set(item.toolCallId, Date.now());
+      this.emit("toolCall", { agent, id: item.toolCallId, name: item.toolName, args: item.input });
+    }
+    if (item.type == "tool-result" || item.type == "tool-error") {
+      const startTime = this.starts.get(item.toolCallId) ?? Date.now();
+      this.starts.delete(item.toolCallId);
+      const trace: ToolTrace = {
+        agent,
+        id: item.toolCallId,
+        name: item.toolName,
+        args: item.input,
+        duration: Date.now() - startTime,
+        startTime,
+      };
+      if (item.type == "tool-result") trace.result = item.output;
+      else trace.error = item.error instanceof Error ? item.error.message : String(item.error);
+      this.emit("toolResult", trace);
+    }
+  }
+}
+
+/**
+ * 推送给前端的调用记录，过长的结果会被截断
+ */
+export function toClientTrace(trace: ToolTrace) {
+  const result = stringify(trace.result);
+  return {
+    ...trace,
+    result: result.length > MAX_STREAM_CHARS ? truncate(result, MAX_STREAM_CHARS) : trace.result,
+    truncated: result.length > MAX_STREAM_CHARS,
+  };
+}
+
+/**
+ * 保存一次工具调用记录
+ */
+export async function saveToolTrace(session: TraceSession, trace: ToolTrace) {
+  await u.db("t_toolTrace").insert({
+    projectId: session.projectId,
+    type: session.type,
+    threadId: session.threadId ?? null,
+    scriptId: session.scriptId ?? null,
+    agent: trace.agent,
+    toolCallId: trace.id,
+    toolName: trace.name,
+    args: stringify(trace.args),
+    result: truncate(stringify(trace.result), MAX_STORE_CHARS),
+    error: trace.error ?? null,
+    duration: trace.duration,
+    startTime: trace.startTime,
+  });
+}